@@ -1,22 +1,140 @@
 import { AtpAgent } from '@atproto/api';
-import { config } from 'dotenv';
-import { listAllRecords } from './records.js';
-import { tidToDate } from './tid.js';
+import { cacheSource, requireCache } from './cache.js';
+import {
+  detectBlocks,
+  detectSkewBatches,
+  KEEP_STRATEGIES,
+  selectForDeletion,
+  skewMs,
+  toTimedRecord,
+  type KeepStrategy,
+  type TimedRecord,
+} from './blocks.js';
+import { carSource } from './car.js';
+import {
+  CAR_OPTION,
+  DRY_RUN_OPTION,
+  isJsonOutput,
+  OFFLINE_OPTION,
+  printJson,
+  TIME_SOURCE_OPTION,
+  type Command,
+} from './command.js';
+import {
+  checkSnapshotTargets,
+  CONCURRENCY_OPTION,
+  parseConcurrency,
+  runDeletion,
+  VERIFY_OPTION,
+} from './deletion.js';
+import { findDuplicateGroups, type DuplicateGroup } from './duplicates.js';
+import { artistNames } from './play.js';
+import {
+  pdsSource,
+  recordTime,
+  TIME_SOURCES,
+  type RecordRef,
+  type RecordSource,
+  type TimeSource,
+} from './records.js';
+import { findReplaySource, indexHistory, type ReplayMatch } from './replays.js';
+import { loadReview, reviewBlocks, reviewTargets, withTerminal, type ReviewSession } from './review.js';
+import { connect, loadConfig, login } from './session.js';
 
-config();
+const MODES = ['gaps', 'duplicates', 'replays', 'skew'] as const;
+type Mode = (typeof MODES)[number];
 
 interface CliArgs {
+  mode: Mode;
   gap: number;
   minBlock: number;
+  tolerance: number;
+  minRatio: number;
+  maxSkew: number;
+  timeSource: TimeSource;
+  delete: boolean;
+  /** Choose what to delete block by block on the terminal */
+  review: boolean;
+  keep: KeepStrategy;
+  dryRun: boolean;
+  concurrency?: number;
+  verify: boolean;
+  offline: boolean;
+  car: boolean;
 }
 
-function parseArgs(): CliArgs {
-  const args = process.argv.slice(2);
+function parseArgs(args: string[]): CliArgs {
+  let mode: Mode = 'gaps';
   let gap = 45;
   let minBlock = 10;
+  let tolerance = 0;
+  let minRatio = 0.8;
+  let maxSkew = 24 * 60 * 60;
+  let timeSource: TimeSource = 'tid';
+  let del = false;
+  let review = false;
+  let keep: KeepStrategy = 'none';
+  let dryRun = false;
+  let concurrency: number | undefined;
+  let verify = false;
+  let offline = false;
+  let car = false;
 
   for (const arg of args) {
-    if (arg.startsWith('--gap=')) {
+    if (arg === '--delete') {
+      del = true;
+    } else if (arg === '--review') {
+      review = true;
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--verify') {
+      verify = true;
+    } else if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--mode=')) {
+      const value = arg.slice('--mode='.length);
+      if (!MODES.includes(value as Mode)) {
+        console.error(`Invalid mode: ${value} (expected ${MODES.join(', ')})`);
+        process.exit(1);
+      }
+      mode = value as Mode;
+    } else if (arg.startsWith('--tolerance=')) {
+      tolerance = parseInt(arg.slice(12), 10);
+      if (isNaN(tolerance) || tolerance < 0) {
+        console.error(`Invalid tolerance value: ${arg.slice(12)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--min-ratio=')) {
+      minRatio = parseFloat(arg.slice(12));
+      if (isNaN(minRatio) || minRatio <= 0 || minRatio > 1) {
+        console.error(`Invalid min-ratio value: ${arg.slice(12)} (expected 0-1)`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--max-skew=')) {
+      maxSkew = parseInt(arg.slice(11), 10);
+      if (isNaN(maxSkew) || maxSkew <= 0) {
+        console.error(`Invalid max-skew value: ${arg.slice(11)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--time-source=')) {
+      const value = arg.slice('--time-source='.length);
+      if (!TIME_SOURCES.includes(value as TimeSource)) {
+        console.error(`Invalid time source: ${value} (expected ${TIME_SOURCES.join(', ')})`);
+        process.exit(1);
+      }
+      timeSource = value as TimeSource;
+    } else if (arg.startsWith('--keep=')) {
+      const value = arg.slice('--keep='.length);
+      if (!KEEP_STRATEGIES.includes(value as KeepStrategy)) {
+        console.error(`Invalid keep strategy: ${value} (expected ${KEEP_STRATEGIES.join(', ')})`);
+        process.exit(1);
+      }
+      keep = value as KeepStrategy;
+    } else if (arg.startsWith('--concurrency=')) {
+      concurrency = parseConcurrency(arg);
+    } else if (arg.startsWith('--gap=')) {
       gap = parseInt(arg.slice(6), 10);
       if (isNaN(gap) || gap <= 0) {
         console.error(`Invalid gap value: ${arg.slice(6)}`);
@@ -31,15 +149,94 @@ function parseArgs(): CliArgs {
     }
   }
 
-  return { gap, minBlock };
+  // Backfilled and imported plays are skewed by design, not junk
+  if (mode === 'skew' && (del || review || keep !== 'none')) {
+    console.error('Error: skew mode only reports; --delete, --keep and --review do not apply to it');
+    process.exit(1);
+  }
+
+  if (review && mode !== 'gaps' && mode !== 'replays') {
+    console.error(`Error: --review does not apply to ${mode} mode`);
+    process.exit(1);
+  }
+
+  if (review && keep !== 'none') {
+    console.error('Error: --keep does not apply with --review, where each block is decided on its own');
+    process.exit(1);
+  }
+
+  if (!del && !review && (dryRun || keep !== 'none' || concurrency || verify)) {
+    console.error('Error: --keep, --concurrency, --verify and --dry-run only apply together with --delete or --review');
+    process.exit(1);
+  }
+
+  if (mode === 'duplicates' && keep !== 'none') {
+    console.error(`Error: --keep does not apply to ${mode} mode`);
+    process.exit(1);
+  }
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
+    process.exit(1);
+  }
+
+  return {
+    mode,
+    gap,
+    minBlock,
+    tolerance,
+    minRatio,
+    maxSkew,
+    timeSource,
+    delete: del || review,
+    review,
+    keep,
+    dryRun,
+    concurrency,
+    verify,
+    offline,
+    car,
+  };
+}
+
+function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  const seconds = Math.round(Math.abs(ms) / 1000);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${sign}${days}d ${hours}h`;
+  if (hours > 0) return `${sign}${hours}h ${minutes}m`;
+  if (minutes > 0) return `${sign}${minutes}m ${seconds % 60}s`;
+  return `${sign}${seconds}s`;
 }
 
-interface Record {
-  rkey: string;
-  timestamp: Date;
+function reportSkewBatch(batch: TimedRecord[], index: number) {
+  const skews = batch.map((r) => skewMs(r)!).sort((a, b) => a - b);
+  const played = batch.map((r) => recordTime(r, 'playedTime').getTime()).sort((a, b) => a - b);
+
+  console.log(`Batch #${index}: ${batch.length.toLocaleString()} records`);
+  console.log(`  Created: ${batch[0].createdAt.toISOString()} to ${batch[batch.length - 1].createdAt.toISOString()}`);
+  console.log(`  Played:  ${new Date(played[0]).toISOString()} to ${new Date(played[played.length - 1]).toISOString()}`);
+  console.log(`  Skew: ${formatDuration(skews[0])} to ${formatDuration(skews[skews.length - 1])} (median ${formatDuration(skews[Math.floor(skews.length / 2)])})`);
+  console.log('');
 }
 
-function reportBlock(block: Record[], index: number) {
+function reportDuplicateGroup(group: DuplicateGroup, index: number) {
+  const v = group.canonical.value;
+  const artists = artistNames(v).join(', ');
+
+  console.log(`Group #${index}: ${group.extras.length + 1} copies`);
+  console.log(`  ${v?.trackName} — ${artists} — ${v?.releaseName} (${v?.playedTime})`);
+  console.log(`  Canonical: ${group.canonical.rkey} (${group.canonical.createdAt.toISOString()})`);
+  for (const extra of group.extras) {
+    console.log(`  Extra:     ${extra.rkey} (${extra.createdAt.toISOString()})`);
+  }
+  console.log('');
+}
+
+function reportBlock(block: TimedRecord[], index: number, replay?: ReplayMatch) {
   const first = block[0];
   const last = block[block.length - 1];
   const spanMs = last.timestamp.getTime() - first.timestamp.getTime();
@@ -51,52 +248,144 @@ function reportBlock(block: Record[], index: number) {
   console.log(`  To:   ${last.timestamp.toISOString()}`);
   console.log(`  Avg gap: ${avgGap}s`);
   console.log(`  First ${sampleRkeys.length} rkeys: ${sampleRkeys.join(', ')}`);
+  if (replay) {
+    const source = replay.source;
+    console.log(`  Replays: ${source.length} records from ${source[0].createdAt.toISOString()} to ${source[source.length - 1].createdAt.toISOString()}`);
+    console.log(`  Match: ${replay.matched}/${block.length} tracks in order (${(replay.ratio * 100).toFixed(0)}%)`);
+  }
   console.log('');
 }
 
-async function main() {
-  const { gap, minBlock } = parseArgs();
+function blockJson(block: TimedRecord[]): object {
+  return {
+    from: block[0].timestamp.toISOString(),
+    to: block[block.length - 1].timestamp.toISOString(),
+    rkeys: block.map((r) => r.rkey),
+  };
+}
 
-  const handle = process.env.BLUESKY_HANDLE;
-  const appPassword = process.env.BLUESKY_APP_PASSWORD;
-  const pdsUrl = process.env.PDS_URL || 'https://bsky.social';
+/**
+ * Step through blocks on the terminal, exiting if the reviewer stops
+ * before the last one; decisions are saved as they're made, so running
+ * the same analysis again carries on from there
+ * @returns The records the reviewer chose to delete
+ */
+async function reviewInTerminal(
+  repo: string,
+  records: TimedRecord[],
+  blocks: TimedRecord[][],
+  show: (block: TimedRecord[], index: number) => void
+): Promise<RecordRef[]> {
+  let session: ReviewSession;
+  try {
+    session = loadReview(repo);
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`Reviewing ${blocks.length} blocks; decisions are saved to ${session.path}\n`);
+
+  const finished = await withTerminal((ask) => reviewBlocks(records, blocks, session, ask, show));
+  if (!finished) {
+    console.log('\nReview paused. Run the same command again to carry on where you left off.');
+    process.exit(0);
+  }
 
-  if (!handle || !appPassword) {
-    console.error('Error: Missing credentials');
-    console.error('Create a .env file with BLUESKY_HANDLE and BLUESKY_APP_PASSWORD');
+  return reviewTargets(session.review, blocks).targets;
+}
+
+async function run(args: string[]) {
+  const {
+    mode,
+    gap,
+    minBlock,
+    tolerance,
+    minRatio,
+    maxSkew,
+    timeSource,
+    delete: del,
+    review,
+    keep,
+    dryRun,
+    concurrency,
+    verify,
+    offline,
+    car,
+  } = parseArgs(args);
+
+  if (review && (isJsonOutput() || !process.stdin.isTTY)) {
+    console.error('Error: --review asks about each block, so it needs an interactive terminal and no --json');
     process.exit(1);
   }
 
-  console.log(`\nAnalyze fm.teal.alpha.feed.play — rapid-scrobble detection`);
+  // Analysis only reads, from the cache or the public repo; deleting
+  // still needs a session
+  const needsRepo = !offline || del;
+  const cfg = loadConfig(del);
+  const { handle, pdsUrl } = cfg;
+
+  const titles: { [M in Mode]: string } = {
+    gaps: 'rapid-scrobble detection',
+    duplicates: 'duplicate detection',
+    replays: 'replayed history detection',
+    skew: 'playedTime vs. creation time skew',
+  };
+  console.log(`\nAnalyze fm.teal.alpha.feed.play — ${titles[mode]}`);
   console.log('='.repeat(55));
   console.log(`Handle: ${handle}`);
-  console.log(`PDS: ${pdsUrl}`);
-  console.log(`Gap threshold: ${gap}s`);
-  console.log(`Min block size: ${minBlock}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}${offline ? ' (reading from local cache)' : car ? ' (reading a CAR export)' : ''}`);
+  if (mode === 'duplicates') {
+    console.log(`playedTime tolerance: ${tolerance}s`);
+  } else if (mode === 'skew') {
+    console.log(`Max skew: ${formatDuration(maxSkew * 1000)}`);
+  } else {
+    console.log(`Time source: ${timeSource === 'tid' ? 'record creation (TID)' : 'playedTime'}`);
+    console.log(`Gap threshold: ${gap}s`);
+    console.log(`Min block size: ${minBlock}`);
+    if (mode === 'replays') console.log(`Min match ratio: ${minRatio}`);
+  }
+  if (review) {
+    console.log(`Delete: as reviewed, block by block${dryRun ? ' (DRY RUN)' : ''}`);
+  } else if (del) {
+    const keeping = mode === 'duplicates' ? 'canonical copies' : keep;
+    console.log(`Delete: keep ${keeping}${dryRun ? ' (DRY RUN)' : ''}`);
+  }
   console.log('');
 
-  console.log('Authenticating...');
-  const agent = new AtpAgent({ service: pdsUrl });
+  let agent: AtpAgent | undefined;
+  let repo: string | undefined;
 
-  try {
-    await agent.login({ identifier: handle, password: appPassword });
-  } catch (err: any) {
-    console.error(`Authentication failed: ${err.message}`);
-    process.exit(1);
+  if (needsRepo) {
+    ({ agent, repo } = del ? await login(cfg) : await connect(cfg));
   }
 
-  const repo = agent.session!.did;
-  console.log(`Authenticated as: ${repo}\n`);
+  let source: RecordSource;
+  if (offline) {
+    const cache = requireCache(handle);
+    if (repo && cache.repo !== repo) {
+      console.error(`Error: cache is for ${cache.repo}, but you are logged in as ${repo}`);
+      process.exit(1);
+    }
+    console.log('');
+    source = cacheSource(cache);
+  } else {
+    source = car ? carSource(agent!, repo!) : pdsSource(agent!, repo!);
+  }
 
   // Collect all records with their timestamps
   console.log('Fetching records...');
-  const records: Record[] = [];
+  const records: TimedRecord[] = [];
+
+  // Skew mode compares both times itself, in creation order
+  const orderBy = mode === 'skew' ? 'tid' : timeSource;
+  let skipped = 0;
 
-  for await (const record of listAllRecords(agent, repo)) {
+  for await (const record of source.list()) {
     try {
-      records.push({ rkey: record.rkey, timestamp: tidToDate(record.rkey) });
+      records.push(toTimedRecord(record, orderBy));
     } catch {
-      // Skip records with unparseable TIDs
+      // Skip records with unparseable TIDs (or playedTimes, if ordering by them)
+      skipped++;
     }
 
     if (records.length % 500 === 0) {
@@ -104,9 +393,17 @@ async function main() {
     }
   }
 
-  console.log(`\rFetched: ${records.length} total\n`);
+  console.log(`\rFetched: ${records.length} total`);
+  if (skipped > 0) {
+    console.log(`Skipped ${skipped} records without a valid ${orderBy === 'tid' ? 'TID' : 'TID or playedTime'} (see npm run lint-records)`);
+  }
+  console.log('');
+
+  // With --json, what was found (or, with --delete, the deletion result)
+  const report = (found: object[]) => printJson({ mode, records: records.length, skipped, found });
 
   if (records.length === 0) {
+    report([]);
     console.log('No records found.');
     process.exit(0);
   }
@@ -114,38 +411,160 @@ async function main() {
   // Sort by timestamp (oldest first)
   records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
 
-  // Walk through and detect rapid-scrobble blocks
-  const gapMs = gap * 1000;
-  let currentBlock: Record[] = [records[0]];
-  let blockIndex = 1;
-  let foundAny = false;
+  let targets: RecordRef[];
+  let description: string;
+  let found: object[];
 
-  for (let i = 1; i < records.length; i++) {
-    const delta = records[i].timestamp.getTime() - records[i - 1].timestamp.getTime();
+  if (mode === 'duplicates') {
+    const groups = findDuplicateGroups(records, tolerance);
+    groups.forEach((group, i) => reportDuplicateGroup(group, i + 1));
+
+    if (groups.length === 0) {
+      console.log('No duplicate plays found.');
+      report([]);
+      return;
+    }
 
-    if (delta <= gapMs) {
-      currentBlock.push(records[i]);
+    const extras = groups.reduce((sum, g) => sum + g.extras.length, 0);
+    console.log(`${groups.length.toLocaleString()} duplicate groups, ${extras.toLocaleString()} extra copies\n`);
+
+    targets = groups.flatMap((g) => g.extras);
+    found = groups.map((g) => ({ canonical: g.canonical.rkey, extras: g.extras.map((e) => e.rkey) }));
+    description = `Analyze duplicates (playedTime tolerance ${tolerance}s)`;
+  } else if (mode === 'skew') {
+    const batches = detectSkewBatches(records, maxSkew * 1000);
+    batches.forEach((batch, i) => reportSkewBatch(batch, i + 1));
+
+    if (batches.length === 0) {
+      console.log(`No records with playedTime more than ${formatDuration(maxSkew * 1000)} from creation time.`);
+      report([]);
+      return;
+    }
+
+    const skewed = batches.reduce((sum, b) => sum + b.length, 0);
+    console.log(`${batches.length.toLocaleString()} batches, ${skewed.toLocaleString()} skewed records\n`);
+
+    report(batches.map((batch) => ({ rkeys: batch.map((r) => r.rkey) })));
+    return;
+  } else if (mode === 'replays') {
+    const blocks = detectBlocks(records, gap, minBlock);
+    const replayed: TimedRecord[][] = [];
+    const matches = new Map<TimedRecord[], ReplayMatch | undefined>();
+    const history = indexHistory(records);
+    const positions = new Map(records.map((record, i) => [record, i]));
+    found = [];
+
+    blocks.forEach((block, i) => {
+      const match = findReplaySource(history, block, positions.get(block[0]));
+      matches.set(block, match);
+      reportBlock(block, i + 1, match);
+      if (match && match.ratio >= minRatio) replayed.push(block);
+      found.push({
+        ...blockJson(block),
+        replay: match && { matched: match.matched, ratio: match.ratio, source: match.source.map((r) => r.rkey) },
+      });
+    });
+
+    if (blocks.length === 0) {
+      console.log('No suspicious rapid-scrobble blocks found.');
+      report([]);
+      return;
+    }
+
+    console.log(
+      `${replayed.length} of ${blocks.length} blocks replay earlier history (match ratio >= ${minRatio})\n`
+    );
+
+    if (review) {
+      targets = await reviewInTerminal(repo!, records, replayed, (block) =>
+        reportBlock(block, blocks.indexOf(block) + 1, matches.get(block))
+      );
+      description = `Review replays (${timeSource} gap ${gap}s, min block ${minBlock}, min ratio ${minRatio})`;
     } else {
-      if (currentBlock.length >= minBlock) {
-        reportBlock(currentBlock, blockIndex++);
-        foundAny = true;
-      }
-      currentBlock = [records[i]];
+      targets = replayed.flatMap((block) => selectForDeletion(block, keep));
+      description = `Analyze replays (${timeSource} gap ${gap}s, min block ${minBlock}, min ratio ${minRatio}, keep ${keep})`;
+    }
+  } else {
+    const blocks = detectBlocks(records, gap, minBlock);
+    // A review shows each block as it comes up
+    if (!review) blocks.forEach((block, i) => reportBlock(block, i + 1));
+    found = blocks.map((block) => blockJson(block));
+
+    if (blocks.length === 0) {
+      console.log('No suspicious rapid-scrobble blocks found.');
+      report([]);
+      return;
+    }
+
+    if (review) {
+      targets = await reviewInTerminal(repo!, records, blocks, (block, i) => reportBlock(block, i + 1));
+      description = `Review blocks (${timeSource} gap ${gap}s, min block ${minBlock})`;
+    } else {
+      targets = blocks.flatMap((block) => selectForDeletion(block, keep));
+      description = `Analyze blocks (${timeSource} gap ${gap}s, min block ${minBlock}, keep ${keep})`;
     }
   }
 
-  // Check final block
-  if (currentBlock.length >= minBlock) {
-    reportBlock(currentBlock, blockIndex++);
-    foundAny = true;
+  if (!del) {
+    report(found);
+    return;
   }
 
-  if (!foundAny) {
-    console.log('No suspicious rapid-scrobble blocks found.');
+  // Hand the selected records to the same deletion flow as `npm start`
+  if (targets.length === 0) {
+    printJson({ dryRun, description, records: [] });
+    console.log('Nothing to delete.');
+    process.exit(0);
   }
+
+  // A cache or CAR can be behind the PDS: only delete what is still there
+  let missing: string[] = [];
+  if (offline || car) {
+    ({ records: targets, missing } = await checkSnapshotTargets(agent!, repo!, targets, 'targets'));
+    console.log('');
+    if (targets.length === 0) {
+      printJson({ dryRun, description, records: [], missing });
+      console.log('None of the targets are still on the PDS. Nothing to delete.');
+      process.exit(0);
+    }
+  }
+
+  targets.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  await runDeletion(agent!, repo!, { records: targets, description, dryRun, concurrency, missing, verify });
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err);
-  process.exit(1);
-});
+export const command: Command = {
+  name: 'analyze',
+  summary: 'Find rapid-scrobble blocks, duplicates, replayed history or backfilled batches',
+  usage: [
+    '[--mode=gaps|duplicates|replays] [thresholds] [--offline|--car] [--delete [--keep=<strategy>] [--concurrency=<n>] [--verify] [--dry-run]]',
+    '--mode=skew [--max-skew=<seconds>] [--offline|--car]',
+    '[--mode=gaps|replays] [thresholds] [--offline|--car] --review [--concurrency=<n>] [--verify] [--dry-run]',
+  ],
+  options: [
+    { name: '--mode', value: MODES.join('|'), description: 'What to look for (default: gaps)' },
+    { name: '--gap', value: 'seconds', description: 'Max gap between records in a block (default: 45)' },
+    { name: '--min-block', value: 'n', description: 'Min records in a block (default: 10)' },
+    { ...TIME_SOURCE_OPTION, description: 'Which time blocks are ordered by (default: tid)' },
+    { name: '--tolerance', value: 'seconds', description: 'duplicates: max playedTime difference (default: 0)' },
+    { name: '--min-ratio', value: '0-1', description: 'replays: min share of a block matching history (default: 0.8)' },
+    { name: '--max-skew', value: 'seconds', description: 'skew: max playedTime vs. creation time difference (default: 1 day)' },
+    { name: '--delete', description: 'gaps/duplicates/replays: delete what was found, through the same flow as `teal delete`' },
+    { name: '--keep', value: KEEP_STRATEGIES.join('|'), description: 'With --delete: which records of each block to keep (default: none)' },
+    { name: '--review', description: 'gaps/replays: keep, delete or pick records block by block, then delete once (resumable)' },
+    { ...CONCURRENCY_OPTION, description: `With --delete or --review: ${CONCURRENCY_OPTION.description}` },
+    { ...VERIFY_OPTION, description: `With --delete or --review: ${VERIFY_OPTION.description}` },
+    OFFLINE_OPTION,
+    CAR_OPTION,
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--gap=30 --min-block=20',
+    '--mode=duplicates --tolerance=5 --delete --dry-run',
+    '--mode=replays --min-ratio=0.9 --delete --keep=first-per-track',
+    '--gap=30 --min-block=20 --review',
+    '--mode=skew --max-skew=3600 --json',
+  ],
+  json: true,
+  run,
+};
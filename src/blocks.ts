@@ -0,0 +1,128 @@
+import { trackKey } from './duplicates.js';
+import type { PlayRecord } from './play.js';
+import { recordTime, type ListedRecord, type RecordRef, type TimeSource } from './records.js';
+import { tidToDate } from './tid.js';
+
+export const KEEP_STRATEGIES = ['none', 'first', 'first-per-track'] as const;
+export type KeepStrategy = (typeof KEEP_STRATEGIES)[number];
+
+/**
+ * A record with the time the analysis orders it by
+ */
+export interface TimedRecord extends RecordRef {
+  /** Time the analysis orders by, from the selected time source */
+  timestamp: Date;
+  value: PlayRecord;
+}
+
+/**
+ * Attach a listed record's creation time and its time from `orderBy`
+ * @throws If the rkey is not a valid TID, or the playedTime is unusable
+ *   when ordering by it
+ */
+export function toTimedRecord(record: ListedRecord, orderBy: TimeSource): TimedRecord {
+  return {
+    rkey: record.rkey,
+    uri: record.uri,
+    createdAt: tidToDate(record.rkey),
+    timestamp: recordTime(record, orderBy),
+    value: record.value,
+  };
+}
+
+/**
+ * Choose which records of a block to delete under a keep strategy
+ * - none: delete the whole block
+ * - first: keep the block's first record, delete the rest
+ * - first-per-track: keep the first play of each distinct track, delete repeats
+ */
+export function selectForDeletion(block: TimedRecord[], keep: KeepStrategy): TimedRecord[] {
+  switch (keep) {
+    case 'none':
+      return block;
+    case 'first':
+      return block.slice(1);
+    case 'first-per-track': {
+      const seen = new Set<string>();
+      return block.filter((record) => {
+        const key = trackKey(record.value);
+        if (seen.has(key)) return true;
+        seen.add(key);
+        return false;
+      });
+    }
+  }
+}
+
+/**
+ * Group time-sorted records into blocks of consecutive records whose gaps
+ * are within the threshold, keeping blocks of at least `minBlock` records
+ * @param gap - Max seconds between consecutive records of a block
+ */
+export function detectBlocks(records: TimedRecord[], gap: number, minBlock: number): TimedRecord[][] {
+  if (records.length === 0) return [];
+
+  const gapMs = gap * 1000;
+  let currentBlock: TimedRecord[] = [records[0]];
+  const blocks: TimedRecord[][] = [];
+
+  for (let i = 1; i < records.length; i++) {
+    const delta = records[i].timestamp.getTime() - records[i - 1].timestamp.getTime();
+
+    if (delta <= gapMs) {
+      currentBlock.push(records[i]);
+    } else {
+      if (currentBlock.length >= minBlock) {
+        blocks.push(currentBlock);
+      }
+      currentBlock = [records[i]];
+    }
+  }
+
+  // Check final block
+  if (currentBlock.length >= minBlock) {
+    blocks.push(currentBlock);
+  }
+
+  return blocks;
+}
+
+/**
+ * Milliseconds between a record's creation time and its playedTime, or
+ * undefined if it has no usable playedTime
+ */
+export function skewMs(record: RecordRef): number | undefined {
+  try {
+    return record.createdAt.getTime() - recordTime(record, 'playedTime').getTime();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Group creation-ordered records whose playedTime is more than `maxSkewMs`
+ * away from their creation time into batches of consecutive records.
+ * Records without a playedTime neither join nor break a batch.
+ */
+export function detectSkewBatches<R extends RecordRef>(records: R[], maxSkewMs: number): R[][] {
+  const batches: R[][] = [];
+  let current: R[] = [];
+
+  for (const record of records) {
+    const skew = skewMs(record);
+    if (skew === undefined) continue;
+
+    if (Math.abs(skew) > maxSkewMs) {
+      current.push(record);
+    } else if (current.length > 0) {
+      batches.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
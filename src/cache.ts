@@ -0,0 +1,225 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PlayRecord } from './play.js';
+import {
+  COLLECTION,
+  memorySource,
+  type ListedRecord,
+  type RecordSource,
+} from './records.js';
+
+const CACHE_DIR = 'cache';
+const CACHE_INDEX = 'index.json';
+const CACHE_VERSION = 1;
+
+/**
+ * Local mirror of one repo's play collection, records sorted by rkey
+ */
+export interface CollectionCache {
+  version: number;
+  repo: string;
+  handle: string;
+  syncedAt: string;
+  /**
+   * Newest rkey listed from the PDS by the last sync, where the next
+   * incremental sync stops. Records our own runs add to the cache don't move
+   * it, since imports and restores write rkeys older than what the PDS may
+   * have gained since.
+   */
+  syncedThrough?: string;
+  records: ListedRecord[];
+}
+
+export interface SyncResult {
+  added: number;
+  removed: number;
+  total: number;
+}
+
+function cachePath(repo: string, dir: string): string {
+  return join(dir, `${repo.replace(/:/g, '_')}.json`);
+}
+
+/**
+ * Map of handle → DID for the cached repos, so offline runs can find a
+ * cache without resolving the handle
+ */
+function readIndex(dir: string): { [handle: string]: string } {
+  const path = join(dir, CACHE_INDEX);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+}
+
+/**
+ * Load the cache for a repo, by DID or by the handle it was synced with
+ * @returns The cache, or undefined if the repo has never been synced
+ */
+export function loadCache(repoOrHandle: string, dir = CACHE_DIR): CollectionCache | undefined {
+  const repo = repoOrHandle.startsWith('did:')
+    ? repoOrHandle
+    : readIndex(dir)[repoOrHandle.toLowerCase()];
+  if (!repo) return undefined;
+
+  const path = cachePath(repo, dir);
+  if (!existsSync(path)) return undefined;
+
+  const cache = JSON.parse(readFileSync(path, 'utf8')) as CollectionCache;
+  if (cache.version !== CACHE_VERSION) {
+    throw new Error(`Unsupported cache version ${cache.version} in ${path}; run a full sync`);
+  }
+  return cache;
+}
+
+/**
+ * Write a cache to disk atomically and record its handle in the index
+ */
+export function saveCache(cache: CollectionCache, dir = CACHE_DIR): void {
+  mkdirSync(dir, { recursive: true });
+
+  const path = cachePath(cache.repo, dir);
+  writeFileSync(`${path}.tmp`, JSON.stringify(cache));
+  renameSync(`${path}.tmp`, path);
+
+  const index = readIndex(dir);
+  index[cache.handle.toLowerCase()] = cache.repo;
+  writeFileSync(join(dir, CACHE_INDEX), JSON.stringify(index, null, 2));
+}
+
+/**
+ * Bring the cache for a repo up to date with the PDS.
+ *
+ * An incremental sync only fetches records with rkeys newer than the last
+ * sync listed, so it is cheap but won't notice deletions (or edits) made
+ * elsewhere, nor records another tool or machine created since with older
+ * rkeys, as importers do when they derive TIDs from `playedTime`. A full
+ * sync re-lists everything and replaces the cache.
+ * @param source - Where to fetch records from (the PDS, or a CAR export)
+ * @param repo - DID of the repo
+ * @param handle - Handle used to find the cache again offline
+ * @param full - Re-list the whole collection to reconcile deletions
+ * @param onProgress - Optional callback with the number of records fetched
+ * @param dir - Directory the cache lives in
+ */
+export async function syncCache(
+  source: RecordSource,
+  repo: string,
+  handle: string,
+  full: boolean,
+  onProgress?: (fetched: number) => void,
+  dir = CACHE_DIR
+): Promise<SyncResult> {
+  const cached = loadCache(repo, dir);
+  const existing = full ? undefined : cached;
+  // Caches from before `syncedThrough` fall back to their newest record
+  const syncedThrough = existing && (existing.syncedThrough ?? existing.records[existing.records.length - 1]?.rkey);
+
+  const fetched: ListedRecord[] = [];
+  for await (const record of source.list()) {
+    // Newest first: everything from here on was listed by the last sync
+    if (syncedThrough && record.rkey <= syncedThrough) break;
+
+    fetched.push(record);
+    if (onProgress && fetched.length % 100 === 0) {
+      onProgress(fetched.length);
+    }
+  }
+  if (onProgress) onProgress(fetched.length);
+
+  fetched.reverse();
+  // Some of the fetched records may be in the cache already, from our own runs
+  const known = new Set(existing?.records.map((r) => r.rkey));
+  const added = fetched.filter((r) => !known.has(r.rkey));
+  const records = existing ? sortByRkey([...existing.records, ...added]) : fetched;
+
+  saveCache(
+    {
+      version: CACHE_VERSION,
+      repo,
+      handle,
+      syncedAt: new Date().toISOString(),
+      syncedThrough: fetched[fetched.length - 1]?.rkey ?? syncedThrough,
+      records,
+    },
+    dir
+  );
+
+  if (existing || !cached) {
+    return { added: added.length, removed: 0, total: records.length };
+  }
+
+  // Full sync over an existing cache: compare the two to report what changed
+  const before = new Set(cached.records.map((r) => r.rkey));
+  const after = new Set(records.map((r) => r.rkey));
+  return {
+    added: records.filter((r) => !before.has(r.rkey)).length,
+    removed: cached.records.filter((r) => !after.has(r.rkey)).length,
+    total: records.length,
+  };
+}
+
+/**
+ * Records in rkey order, oldest first
+ */
+function sortByRkey(records: ListedRecord[]): ListedRecord[] {
+  return records.sort((a, b) => (a.rkey < b.rkey ? -1 : a.rkey > b.rkey ? 1 : 0));
+}
+
+/**
+ * Apply the outcome of a write run to the cache, if there is one, so it
+ * doesn't go stale until the next full sync
+ * @param repo - DID of the repo
+ * @param changes - rkeys that were deleted and records that were written
+ * @param dir - Directory the cache lives in
+ */
+export function updateCache(
+  repo: string,
+  changes: { deleted?: string[]; written?: { rkey: string; value: PlayRecord }[] },
+  dir = CACHE_DIR
+): void {
+  const cache = loadCache(repo, dir);
+  if (!cache) return;
+
+  const byRkey = new Map(cache.records.map((r) => [r.rkey, r]));
+  for (const rkey of changes.deleted ?? []) {
+    byRkey.delete(rkey);
+  }
+  for (const write of changes.written ?? []) {
+    byRkey.set(write.rkey, {
+      uri: `at://${repo}/${COLLECTION}/${write.rkey}`,
+      rkey: write.rkey,
+      value: write.value,
+    });
+  }
+
+  cache.records = sortByRkey([...byRkey.values()]);
+  saveCache(cache, dir);
+}
+
+/**
+ * Record source that reads from a local cache
+ */
+export function cacheSource(cache: CollectionCache): RecordSource {
+  return memorySource(cache.records);
+}
+
+/**
+ * Load the cache for an offline run, exiting with an error if the repo
+ * has never been synced
+ * @param log - Where to print which cache is being used
+ */
+export function requireCache(handle: string, log = console.log): CollectionCache {
+  let cache: CollectionCache | undefined;
+  try {
+    cache = loadCache(handle);
+  } catch (err: any) {
+    console.error(`Error: ${err.message}`);
+    process.exit(1);
+  }
+
+  if (!cache) {
+    console.error(`Error: No local cache for ${handle}. Run \`npm run sync\` first.`);
+    process.exit(1);
+  }
+
+  log(`Using cache: ${cache.records.length.toLocaleString()} records, synced ${cache.syncedAt}`);
+  return cache;
+}
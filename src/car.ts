@@ -0,0 +1,388 @@
+/**
+ * Read records out of a repo CAR export (`com.atproto.sync.getRepo`)
+ *
+ * A CAR file is a header (DAG-CBOR `{version, roots}`) followed by blocks,
+ * each a varint length, a CID and the block bytes. The root is the signed
+ * commit, whose `data` field points at the root of the repo's Merkle Search
+ * Tree (MST). MST nodes hold prefix-compressed `collection/rkey` keys in
+ * sorted order, each pointing at the block holding that record.
+ */
+import { AtpAgent } from '@atproto/api';
+import type { PlayRecord } from './play.js';
+import { COLLECTION, memorySource, type ListedRecord, type RecordSource } from './records.js';
+
+// CBOR tag DAG-CBOR uses for CID links
+const CID_TAG = 42;
+
+// RFC 4648 base32, as used for CIDv1 strings ("b" multibase prefix)
+const BASE32_CHARS = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/**
+ * Marker for a decoded CID link, keeping its raw bytes for block lookups
+ */
+class CidLink {
+  constructor(readonly bytes: Uint8Array) {}
+
+  get key(): string {
+    return Buffer.from(this.bytes).toString('hex');
+  }
+
+  toString(): string {
+    let bits = 0;
+    let value = 0;
+    let result = 'b';
+    for (const byte of this.bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        result += BASE32_CHARS[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) {
+      result += BASE32_CHARS[(value << (5 - bits)) & 31];
+    }
+    return result;
+  }
+}
+
+/**
+ * A decoded DAG-CBOR value: links and byte strings stay as they are
+ */
+type CborValue = number | string | boolean | null | Uint8Array | CidLink | CborValue[] | CborMap;
+type CborMap = { [key: string]: CborValue };
+
+/**
+ * The JSON form of a record value, as listRecords returns it
+ */
+type JsonValue = number | string | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * MST node: `l` is the subtree left of the first entry; each entry holds a
+ * key suffix `k` after `p` bytes shared with the previous key, the record
+ * CID `v` and the subtree `t` between it and the next entry
+ */
+interface MstNode {
+  l: CidLink | null;
+  e: { p: number; k: Uint8Array; v: CidLink; t: CidLink | null }[];
+}
+
+function isCborMap(value: CborValue): value is CborMap {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Uint8Array) &&
+    !(value instanceof CidLink)
+  );
+}
+
+function isOptionalLink(value: CborValue | undefined): value is CidLink | null | undefined {
+  return value == null || value instanceof CidLink;
+}
+
+/**
+ * Read an unsigned LEB128 varint
+ * @returns The value and the position after it
+ */
+function readVarint(bytes: Uint8Array, pos: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  while (true) {
+    if (pos >= bytes.length) {
+      throw new Error('Unexpected end of CAR data in varint');
+    }
+    const byte = bytes[pos++];
+    value += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) return [value, pos];
+    shift += 7;
+  }
+}
+
+/**
+ * Read a binary CIDv1 (version, codec, multihash code, digest length, digest)
+ * @returns The CID's bytes and the position after it
+ */
+function readCid(bytes: Uint8Array, pos: number): [Uint8Array, number] {
+  const start = pos;
+  let version: number;
+  [version, pos] = readVarint(bytes, pos);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}`);
+  }
+  [, pos] = readVarint(bytes, pos); // codec
+  [, pos] = readVarint(bytes, pos); // multihash code
+  let digestLength: number;
+  [digestLength, pos] = readVarint(bytes, pos);
+  pos += digestLength;
+  return [bytes.subarray(start, pos), pos];
+}
+
+/**
+ * Minimal DAG-CBOR decoder: the subset of CBOR that atproto records and
+ * repo structures use (no indefinite lengths, string map keys only)
+ */
+function decodeCbor(bytes: Uint8Array): CborValue {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = new TextDecoder();
+  let pos = 0;
+
+  function readLength(info: number): number {
+    if (info < 24) return info;
+    if (info === 24) return bytes[pos++];
+    if (info === 25) {
+      pos += 2;
+      return view.getUint16(pos - 2);
+    }
+    if (info === 26) {
+      pos += 4;
+      return view.getUint32(pos - 4);
+    }
+    if (info === 27) {
+      pos += 8;
+      return Number(view.getBigUint64(pos - 8));
+    }
+    throw new Error(`Unsupported CBOR length encoding ${info}`);
+  }
+
+  function readItem(): CborValue {
+    if (pos >= bytes.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+    const initial = bytes[pos++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        pos += length;
+        return bytes.subarray(pos - length, pos);
+      }
+      case 3: {
+        const length = readLength(info);
+        pos += length;
+        return text.decode(bytes.subarray(pos - length, pos));
+      }
+      case 4: {
+        const length = readLength(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: CborMap = {};
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          if (typeof key !== 'string') {
+            throw new Error('Unsupported non-string CBOR map key');
+          }
+          map[key] = readItem();
+        }
+        return map;
+      }
+      case 6: {
+        const tag = readLength(info);
+        const content = readItem();
+        if (tag !== CID_TAG || !(content instanceof Uint8Array) || content[0] !== 0) {
+          throw new Error(`Unsupported CBOR tag ${tag}`);
+        }
+        // Tagged CIDs carry a leading 0x00 (identity multibase) byte
+        return new CidLink(content.subarray(1));
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        // DAG-CBOR only allows 64-bit floats
+        if (info === 27) {
+          pos += 8;
+          return view.getFloat64(pos - 8);
+        }
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+    throw new Error(`Unsupported CBOR major type ${major}`);
+  }
+
+  return readItem();
+}
+
+/**
+ * Convert decoded DAG-CBOR to the JSON shape listRecords returns:
+ * links become `{$link}` and byte strings `{$bytes}`
+ */
+function toJson(value: CborValue): JsonValue {
+  if (value instanceof CidLink) return { $link: value.toString() };
+  if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString('base64') };
+  if (Array.isArray(value)) return value.map(toJson);
+  if (isCborMap(value)) {
+    const result: { [key: string]: JsonValue } = {};
+    for (const [key, item] of Object.entries(value)) result[key] = toJson(item);
+    return result;
+  }
+  return value;
+}
+
+interface CarFile {
+  roots: CidLink[];
+  /** Block bytes by hex-encoded CID */
+  blocks: Map<string, Uint8Array>;
+}
+
+function parseCar(bytes: Uint8Array): CarFile {
+  let [headerLength, pos] = readVarint(bytes, 0);
+  const header = decodeCbor(bytes.subarray(pos, pos + headerLength));
+  pos += headerLength;
+
+  const version = isCborMap(header) ? header.version : undefined;
+  const roots = isCborMap(header) ? header.roots : undefined;
+  if (version !== 1 || !Array.isArray(roots) || !roots.every((root) => root instanceof CidLink)) {
+    throw new Error(`Unsupported CAR header (version ${version})`);
+  }
+
+  const blocks = new Map<string, Uint8Array>();
+  while (pos < bytes.length) {
+    let length: number;
+    [length, pos] = readVarint(bytes, pos);
+    const end = pos + length;
+    if (end > bytes.length) {
+      throw new Error('CAR file is truncated');
+    }
+
+    const [cid, dataStart] = readCid(bytes, pos);
+    blocks.set(Buffer.from(cid).toString('hex'), bytes.subarray(dataStart, end));
+    pos = end;
+  }
+
+  return { roots, blocks };
+}
+
+function getBlock(car: CarFile, cid: CidLink): CborValue {
+  const block = car.blocks.get(cid.key);
+  if (!block) {
+    throw new Error(`CAR file is missing block ${cid}`);
+  }
+  return decodeCbor(block);
+}
+
+/**
+ * Read an MST node, checking it has the shape walking the tree relies on
+ */
+function getMstNode(car: CarFile, cid: CidLink): MstNode {
+  const node = getBlock(car, cid);
+  if (!isCborMap(node) || !Array.isArray(node.e) || !isOptionalLink(node.l)) {
+    throw new Error(`CAR block ${cid} is not an MST node`);
+  }
+
+  const entries = node.e.map((entry) => {
+    if (
+      !isCborMap(entry) ||
+      typeof entry.p !== 'number' ||
+      !(entry.k instanceof Uint8Array) ||
+      !(entry.v instanceof CidLink) ||
+      !isOptionalLink(entry.t)
+    ) {
+      throw new Error(`CAR block ${cid} has a malformed MST entry`);
+    }
+    return { p: entry.p, k: entry.k, v: entry.v, t: entry.t ?? null };
+  });
+  return { l: node.l ?? null, e: entries };
+}
+
+/**
+ * Walk an MST in key order, yielding each key and the CID it points at.
+ * Subtrees whose keys can't include `prefix` are skipped.
+ */
+function* walkMst(
+  car: CarFile,
+  nodeCid: CidLink,
+  prefix: string
+): Generator<{ key: string; cid: CidLink }> {
+  const node = getMstNode(car, nodeCid);
+  const text = new TextDecoder();
+  let lastKey = '';
+
+  // Keys in and below `node.l` sort before the first entry
+  const firstKey = node.e.length > 0 ? text.decode(node.e[0].k) : undefined;
+  if (node.l && (firstKey === undefined || firstKey >= prefix)) {
+    yield* walkMst(car, node.l, prefix);
+  }
+
+  for (let i = 0; i < node.e.length; i++) {
+    const entry = node.e[i];
+    const key = lastKey.slice(0, entry.p) + text.decode(entry.k);
+    lastKey = key;
+
+    if (key.startsWith(prefix)) {
+      yield { key, cid: entry.v };
+    } else if (key > prefix) {
+      // Past every key with the prefix
+      return;
+    }
+
+    // Keys in `entry.t` sort between this entry and the next one
+    if (entry.t) {
+      const nextSuffix = node.e[i + 1]?.k;
+      const nextKey = nextSuffix && key.slice(0, node.e[i + 1].p) + text.decode(nextSuffix);
+      if (!nextKey || nextKey >= prefix) {
+        yield* walkMst(car, entry.t, prefix);
+      }
+    }
+  }
+}
+
+/**
+ * Extract the play records from a repo CAR export
+ * @returns The repo's DID and its records, sorted by rkey (oldest first)
+ */
+export function readRepoCar(bytes: Uint8Array): { repo: string; records: ListedRecord[] } {
+  const car = parseCar(bytes);
+  if (car.roots.length === 0) {
+    throw new Error('CAR file has no root');
+  }
+
+  const commit = getBlock(car, car.roots[0]);
+  const did = isCborMap(commit) ? commit.did : undefined;
+  const data = isCborMap(commit) ? commit.data : undefined;
+  if (typeof did !== 'string' || !(data instanceof CidLink)) {
+    throw new Error('CAR root is not a repo commit');
+  }
+
+  const prefix = `${COLLECTION}/`;
+  const records: ListedRecord[] = [];
+
+  for (const { key, cid } of walkMst(car, data, prefix)) {
+    const rkey = key.slice(prefix.length);
+    const value: unknown = toJson(getBlock(car, cid));
+    // Typed, not checked: the repo holds whatever a client wrote
+    records.push({ uri: `at://${did}/${key}`, rkey, cid: cid.toString(), value: value as PlayRecord });
+  }
+
+  return { repo: did, records };
+}
+
+/**
+ * Record source that downloads the whole repo in one `getRepo` request and
+ * reads the play records out of it locally. The download happens on the
+ * first `list()` call and is reused after that.
+ */
+export function carSource(agent: AtpAgent, repo: string): RecordSource {
+  let loaded: Promise<RecordSource> | undefined;
+
+  const load = async () => {
+    const response = await agent.com.atproto.sync.getRepo({ did: repo });
+    return memorySource(readRepoCar(response.data).records);
+  };
+
+  return {
+    async *list(options) {
+      loaded ??= load();
+      yield* (await loaded).list(options);
+    },
+  };
+}
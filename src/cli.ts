@@ -0,0 +1,59 @@
+import { command as analyze } from './analyze.js';
+import { checkOptions, enableJsonOutput, printHelp, type Command } from './command.js';
+import { command as del } from './delete.js';
+import { command as edit } from './edit.js';
+import { command as exportCommand } from './export.js';
+import { command as importCommand } from './import.js';
+import { command as lint } from './lint.js';
+import { command as restore } from './restore.js';
+import { command as search } from './search.js';
+import { selectAccount } from './session.js';
+import { command as stats } from './stats.js';
+import { command as sync } from './sync.js';
+
+const COMMANDS: Command[] = [del, analyze, search, edit, restore, lint, stats, exportCommand, importCommand, sync];
+
+function printCommands(): void {
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  console.log('Usage: teal <command> [options]\n');
+  console.log('Commands:');
+  for (const command of COMMANDS) {
+    console.log(`  ${command.name.padEnd(width)}  ${command.summary}`);
+  }
+  console.log('\nRun `teal <command> --help` for its options.');
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2);
+
+  if (!name || name === '--help' || name === 'help') {
+    const topic = name === 'help' ? COMMANDS.find((c) => c.name === args[0]) : undefined;
+    if (topic) printHelp(topic);
+    else printCommands();
+    return;
+  }
+
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) {
+    console.error(`Unknown command: ${name}\n`);
+    printCommands();
+    process.exit(1);
+  }
+
+  const checked = checkOptions(command, args);
+  if (checked.help) {
+    printHelp(command);
+    return;
+  }
+  if (checked.json) {
+    enableJsonOutput();
+  }
+  selectAccount({ profile: checked.profile, handle: checked.handle });
+
+  await command.run(checked.args);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
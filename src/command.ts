@@ -0,0 +1,219 @@
+/**
+ * Shared pieces of the `teal` subcommands: option declarations, strict
+ * argument checking, help output and the `--json` output mode
+ */
+
+export interface OptionSpec {
+  /** Flag including dashes, e.g. `--dry-run` */
+  name: string;
+  /** Placeholder for the value, e.g. `ISO8601` for `--start=<ISO8601>`; flags have none */
+  value?: string;
+  description: string;
+  /** Whether the option may be given more than once */
+  repeatable?: boolean;
+}
+
+export interface CheckedOptions {
+  /** The command's own arguments */
+  args: string[];
+  help: boolean;
+  json: boolean;
+  profile?: string;
+  handle?: string;
+}
+
+export interface Command {
+  name: string;
+  summary: string;
+  /** Synopsis lines, without the leading `teal <name>` */
+  usage: string[];
+  options: OptionSpec[];
+  examples: string[];
+  /** Whether the command supports `--json` */
+  json?: boolean;
+  run(args: string[]): Promise<void>;
+}
+
+export const DRY_RUN_OPTION: OptionSpec = {
+  name: '--dry-run',
+  description: 'Show what would change without changing anything',
+};
+
+export const OFFLINE_OPTION: OptionSpec = {
+  name: '--offline',
+  description: 'Read records from the local cache (see `teal sync`)',
+};
+
+export const CAR_OPTION: OptionSpec = {
+  name: '--car',
+  description: 'Read records from a CAR export of the whole repo',
+};
+
+export const TIME_SOURCE_OPTION: OptionSpec = {
+  name: '--time-source',
+  value: 'tid|playedTime',
+  description: 'Which time --start/--end compare against (default: tid)',
+};
+
+const HELP_OPTION: OptionSpec = { name: '--help', description: 'Show this help' };
+
+const PROFILE_OPTION: OptionSpec = {
+  name: '--profile',
+  value: 'name',
+  description: 'Use the account in .env.<name> instead of .env',
+};
+
+const HANDLE_OPTION: OptionSpec = {
+  name: '--handle',
+  value: 'handle or DID',
+  description: 'Target this account, resolving its DID and PDS',
+};
+
+const JSON_OPTION: OptionSpec = {
+  name: '--json',
+  description: 'Print the result as JSON on stdout; progress goes to stderr',
+};
+
+/**
+ * Edit distance between two flags, for "did you mean" suggestions
+ */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function allOptions(command: Command): OptionSpec[] {
+  return [...command.options, PROFILE_OPTION, HANDLE_OPTION, ...(command.json ? [JSON_OPTION] : []), HELP_OPTION];
+}
+
+function formatOption(option: OptionSpec): string {
+  return option.value ? `${option.name}=<${option.value}>` : option.name;
+}
+
+/**
+ * Print the usage lines and exit, optionally after an error message
+ */
+export function usageError(command: Command, message?: string): never {
+  if (message) console.error(`Error: ${message}`);
+  for (const line of command.usage) {
+    console.error(`Usage: teal ${command.name} ${line}`);
+  }
+  console.error(`Run \`teal ${command.name} --help\` for all options.`);
+  process.exit(1);
+}
+
+export function printHelp(command: Command): void {
+  console.log(`teal ${command.name} — ${command.summary}\n`);
+  for (const line of command.usage) {
+    console.log(`Usage: teal ${command.name} ${line}`);
+  }
+
+  const options = allOptions(command);
+  const width = Math.max(...options.map((o) => formatOption(o).length));
+  console.log('\nOptions:');
+  for (const option of options) {
+    const repeat = option.repeatable ? ' (repeatable)' : '';
+    console.log(`  ${formatOption(option).padEnd(width)}  ${option.description}${repeat}`);
+  }
+
+  if (command.examples.length > 0) {
+    console.log('\nExamples:');
+    for (const example of command.examples) {
+      console.log(`  teal ${command.name} ${example}`);
+    }
+  }
+}
+
+/**
+ * Reject anything the command doesn't declare, before it runs: a
+ * misspelled `--dry-run` must never fall through to a live run
+ * @returns The arguments with the shared options taken out
+ */
+export function checkOptions(command: Command, args: string[]): CheckedOptions {
+  const options = allOptions(command);
+  const seen = new Set<string>();
+  const rest: string[] = [];
+  let help = false;
+  let json = false;
+  let profile: string | undefined;
+  let handle: string | undefined;
+
+  for (const arg of args) {
+    if (!arg.startsWith('--')) {
+      usageError(command, `Unexpected argument: ${arg}`);
+    }
+
+    const eq = arg.indexOf('=');
+    const name = eq === -1 ? arg : arg.slice(0, eq);
+    const option = options.find((o) => o.name === name);
+
+    if (!option) {
+      const suggestion = options
+        .map((o) => ({ option: o, d: distance(name, o.name) }))
+        .filter(({ d }) => d <= 2)
+        .sort((a, b) => a.d - b.d)[0];
+      usageError(
+        command,
+        `Unknown option: ${name}${suggestion ? ` (did you mean ${formatOption(suggestion.option)}?)` : ''}`
+      );
+    }
+    if (option.value && eq === -1) {
+      usageError(command, `${name} needs a value: ${formatOption(option)}`);
+    }
+    if (!option.value && eq !== -1) {
+      usageError(command, `${name} does not take a value`);
+    }
+    if (seen.has(name) && !option.repeatable) {
+      usageError(command, `${name} given more than once`);
+    }
+    seen.add(name);
+
+    if (option === HELP_OPTION) help = true;
+    else if (option === JSON_OPTION) json = true;
+    else if (option === PROFILE_OPTION) profile = arg.slice(eq + 1);
+    else if (option === HANDLE_OPTION) handle = arg.slice(eq + 1);
+    else rest.push(arg);
+  }
+
+  return { args: rest, help, json, profile, handle };
+}
+
+let jsonOutput = false;
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+/**
+ * Switch to `--json` output: everything the command prints for people goes
+ * to stderr, so stdout carries only the JSON result
+ */
+export function enableJsonOutput(): void {
+  jsonOutput = true;
+  console.log = console.error;
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Print a warning or notice passed up from a library call on a line of its
+ * own, after any `\r` progress line. It goes to stderr, so it never mixes
+ * with output written to stdout.
+ */
+export function printNotice(message: string): void {
+  console.error(`\n${message}`);
+}
+
+/**
+ * Print a command's result as JSON, if `--json` was given
+ */
+export function printJson(value: unknown): void {
+  if (jsonOutput) writeStdout(JSON.stringify(value, null, 2) + '\n');
+}
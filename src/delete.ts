@@ -0,0 +1,344 @@
+import { readFileSync } from 'fs';
+import { cacheSource, requireCache } from './cache.js';
+import { carSource } from './car.js';
+import {
+  CAR_OPTION,
+  DRY_RUN_OPTION,
+  OFFLINE_OPTION,
+  printJson,
+  printNotice,
+  TIME_SOURCE_OPTION,
+  usageError,
+  type Command,
+} from './command.js';
+import {
+  getRecordsInRange,
+  pdsSource,
+  TIME_SOURCES,
+  type RecordRef,
+  type RecordSource,
+  type TimeSource,
+} from './records.js';
+import {
+  checkSnapshotTargets,
+  CONCURRENCY_OPTION,
+  parseConcurrency,
+  runDeletion,
+  VERIFY_OPTION,
+} from './deletion.js';
+import { loadPlan, remainingTargets, type DeletionPlan } from './plan.js';
+import { loadConfig, login } from './session.js';
+import { checkTargets, parseTargets } from './targets.js';
+
+interface CliArgs {
+  start?: Date;
+  end?: Date;
+  resume?: string;
+  /** File of rkeys or at:// URIs to delete, one per line */
+  rkeysFile?: string;
+  /** Read rkeys or at:// URIs from stdin instead */
+  stdin: boolean;
+  timeSource: TimeSource;
+  dryRun: boolean;
+  concurrency?: number;
+  verify: boolean;
+  offline: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  let start: Date | undefined;
+  let end: Date | undefined;
+  let resume: string | undefined;
+  let rkeysFile: string | undefined;
+  let stdin = false;
+  let timeSource: TimeSource = 'tid';
+  let dryRun = false;
+  let concurrency: number | undefined;
+  let verify = false;
+  let offline = false;
+  let car = false;
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--verify') {
+      verify = true;
+    } else if (arg === '--stdin') {
+      stdin = true;
+    } else if (arg.startsWith('--rkeys-file=')) {
+      rkeysFile = arg.slice('--rkeys-file='.length);
+    } else if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--time-source=')) {
+      const value = arg.slice('--time-source='.length);
+      if (!TIME_SOURCES.includes(value as TimeSource)) {
+        console.error(`Invalid time source: ${value} (expected ${TIME_SOURCES.join(', ')})`);
+        process.exit(1);
+      }
+      timeSource = value as TimeSource;
+    } else if (arg.startsWith('--concurrency=')) {
+      concurrency = parseConcurrency(arg);
+    } else if (arg.startsWith('--resume=')) {
+      resume = arg.slice('--resume='.length);
+    } else if (arg.startsWith('--start=')) {
+      start = new Date(arg.slice(8));
+      if (isNaN(start.getTime())) {
+        console.error(`Invalid start date: ${arg.slice(8)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--end=')) {
+      end = new Date(arg.slice(6));
+      if (isNaN(end.getTime())) {
+        console.error(`Invalid end date: ${arg.slice(6)}`);
+        process.exit(1);
+      }
+    }
+  }
+
+  // Exactly one way of choosing targets
+  const chosen = [
+    (start || end) && '--start/--end',
+    resume && '--resume',
+    rkeysFile && '--rkeys-file',
+    stdin && '--stdin',
+  ].filter(Boolean);
+  if (chosen.length > 1) {
+    usageError(command, `${chosen.join(' and ')} cannot be combined`);
+  }
+
+  if (resume || rkeysFile || stdin) {
+    // Listed targets are looked up on the PDS, not scanned for
+    if (offline || car || timeSource !== 'tid') {
+      usageError(command, '--time-source, --offline and --car only apply to --start/--end');
+    }
+    return { resume, rkeysFile, stdin, timeSource, dryRun, concurrency, verify, offline, car };
+  }
+
+  if (!start || !end) {
+    usageError(command);
+  }
+
+  if (start > end) {
+    console.error('Error: start date must be before end date');
+    process.exit(1);
+  }
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
+    process.exit(1);
+  }
+
+  return { start, end, stdin, timeSource, dryRun, concurrency, verify, offline, car };
+}
+
+/**
+ * Read the target list, exiting if it can't be read
+ */
+function readTargetList(rkeysFile: string | undefined): string {
+  try {
+    // fd 0 reads all of stdin, piped or redirected
+    return readFileSync(rkeysFile ?? 0, 'utf-8');
+  } catch (err: any) {
+    console.error(`Could not read ${rkeysFile ?? 'stdin'}: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+function describeRange(start: Date, end: Date, timeSource: TimeSource): string {
+  return `Time range ${start.toISOString()} to ${end.toISOString()} (${timeSource})`;
+}
+
+async function run(args: string[]) {
+  const { start, end, resume, rkeysFile, stdin, timeSource, dryRun, concurrency, verify, offline, car } = parseArgs(args);
+
+  // Read piped targets before anything else prompts on the terminal
+  const targetList = rkeysFile || stdin ? readTargetList(rkeysFile) : undefined;
+  const listName = rkeysFile ?? 'stdin';
+
+  const cfg = loadConfig();
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nPDS Editor - Delete fm.teal.alpha.feed.play records`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}`);
+  if (resume) {
+    console.log(`Resuming plan: ${resume}`);
+  } else if (targetList !== undefined) {
+    console.log(`Targets: rkeys and URIs from ${listName}`);
+  } else {
+    console.log(`Time range: ${start!.toISOString()} to ${end!.toISOString()}`);
+    console.log(`Time source: ${timeSource === 'tid' ? 'record creation (TID)' : 'playedTime'}`);
+    if (offline) console.log('Scanning: local cache');
+    if (car) console.log('Scanning: CAR export');
+  }
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}`);
+  console.log('');
+
+  const { agent, repo } = await login(cfg);
+
+  let records: RecordRef[];
+  let missing: string[] = [];
+  let resumedPlan: DeletionPlan | undefined;
+  let description: string;
+
+  if (resume) {
+    // Pick up the remaining targets from an interrupted run, skipping the rescan
+    try {
+      resumedPlan = loadPlan(resume);
+    } catch (err: any) {
+      console.error(`Could not read plan ${resume}: ${err.message}`);
+      process.exit(1);
+    }
+
+    if (resumedPlan.repo !== repo) {
+      console.error(`Error: plan was written for ${resumedPlan.repo}, but you are logged in as ${repo}`);
+      process.exit(1);
+    }
+
+    records = remainingTargets(resumedPlan);
+    description = resumedPlan.description;
+    const done = resumedPlan.targets.length - records.length;
+    console.log(`Plan: ${resumedPlan.description}`);
+    console.log(`Already deleted: ${done}/${resumedPlan.targets.length}\n`);
+
+    if (records.length === 0) {
+      printJson({ dryRun, description: resumedPlan.description, records: [] });
+      console.log('Nothing left to delete in this plan.');
+      process.exit(0);
+    }
+  } else if (targetList !== undefined) {
+    const { rkeys, errors } = parseTargets(targetList, repo, handle);
+    if (errors.length > 0) {
+      console.error(`${errors.length} invalid targets in ${listName}, nothing was deleted:`);
+      for (const error of errors) console.error(`  ${error}`);
+      process.exit(1);
+    }
+    description = `${rkeys.length} targets listed in ${listName}`;
+    if (rkeys.length === 0) {
+      printJson({ dryRun, description, records: [] });
+      console.log(`No targets listed in ${listName}.`);
+      process.exit(0);
+    }
+
+    // Only delete (and journal) what is actually there
+    console.log(`Checking ${rkeys.length} targets...`);
+    let found: RecordRef[];
+    try {
+      ({ found, missing } = await checkTargets(
+        agent,
+        repo,
+        rkeys,
+        (checked) => process.stdout.write(`\rChecked: ${checked}/${rkeys.length}`),
+        printNotice
+      ));
+    } catch (err: any) {
+      console.error(`\nCould not check targets, nothing was deleted: ${err.message}`);
+      process.exit(1);
+    }
+    console.log('\n');
+
+    if (missing.length > 0) {
+      console.log(`${missing.length} targets do not exist (already deleted?) and are skipped:`);
+      for (const rkey of missing.slice(0, 10)) console.log(`  ${rkey}`);
+      if (missing.length > 10) console.log(`  ... and ${missing.length - 10} more`);
+      console.log('');
+    }
+
+    records = found;
+    if (records.length === 0) {
+      printJson({ dryRun, description, records: [], missing });
+      console.log('None of the targets exist. Nothing to delete.');
+      process.exit(0);
+    }
+  } else {
+    description = describeRange(start!, end!, timeSource);
+
+    // Plan from the local cache if asked; the deletes still go to the PDS
+    let source: RecordSource = car ? carSource(agent, repo) : pdsSource(agent, repo);
+    if (offline) {
+      const cache = requireCache(handle);
+      if (cache.repo !== repo) {
+        console.error(`Error: cache is for ${cache.repo}, but you are logged in as ${repo}`);
+        process.exit(1);
+      }
+      source = cacheSource(cache);
+    }
+
+    // Find matching records
+    console.log('Scanning records...');
+    records = await getRecordsInRange(
+      source,
+      start!,
+      end!,
+      (scanned, matched) => {
+        process.stdout.write(`\rScanned: ${scanned}, Matched: ${matched}`);
+      },
+      timeSource,
+      printNotice
+    );
+    console.log('\n');
+
+    if (records.length === 0) {
+      printJson({ dryRun, description, records: [] });
+      console.log('No records found in the specified time range.');
+      process.exit(0);
+    }
+
+    // A cache or CAR can be behind the PDS: only delete what is still there
+    if (offline || car) {
+      ({ records, missing } = await checkSnapshotTargets(agent, repo, records, 'records'));
+      console.log('');
+      if (records.length === 0) {
+        printJson({ dryRun, description, records: [], missing });
+        console.log('None of the records are still on the PDS. Nothing to delete.');
+        process.exit(0);
+      }
+    }
+  }
+
+  await runDeletion(agent, repo, {
+    records,
+    description,
+    dryRun,
+    resumed: resumedPlan && { plan: resumedPlan, path: resume! },
+    concurrency,
+    confirmOnTerminal: stdin,
+    missing,
+    verify,
+  });
+}
+
+export const command: Command = {
+  name: 'delete',
+  summary: 'Delete records in a time range or from a list, or resume an interrupted deletion',
+  usage: [
+    '--start=<ISO8601> --end=<ISO8601> [--time-source=tid|playedTime] [--offline|--car] [--concurrency=<n>] [--verify] [--dry-run]',
+    '--rkeys-file=<file> | --stdin [--concurrency=<n>] [--verify] [--dry-run]',
+    '--resume=<plan file> [--concurrency=<n>] [--verify] [--dry-run]',
+  ],
+  options: [
+    { name: '--start', value: 'ISO8601', description: 'Start of the time range (inclusive)' },
+    { name: '--end', value: 'ISO8601', description: 'End of the time range (inclusive)' },
+    TIME_SOURCE_OPTION,
+    { name: '--rkeys-file', value: 'file', description: 'Delete the rkeys or at:// URIs listed in a file, one per line' },
+    { name: '--stdin', description: 'Delete the rkeys or at:// URIs piped in on stdin, one per line' },
+    { name: '--resume', value: 'plan file', description: 'Continue an interrupted deletion from its plan' },
+    OFFLINE_OPTION,
+    CAR_OPTION,
+    CONCURRENCY_OPTION,
+    VERIFY_OPTION,
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--start=2024-03-01T00:00:00Z --end=2024-03-15T23:59:59Z --dry-run',
+    '--start=2024-03-01 --end=2024-03-15 --concurrency=8 --verify',
+    '--rkeys-file=podcast-plays.txt --dry-run',
+    '--resume=plans/delete-2024-03-16T10-00-00-000Z.json',
+  ],
+  json: true,
+  run,
+};
@@ -1,170 +1,186 @@
 import { AtpAgent } from '@atproto/api';
+import { loadRateLimiter, withRateLimit, type RateLimiter } from './ratelimit.js';
 import type { RecordRef } from './records.js';
 
 const COLLECTION = 'fm.teal.alpha.feed.play';
 
-// Rate limit: 5000 deletions per hour, stay under with buffer
-const MAX_DELETIONS_PER_HOUR = 4500;
-const HOUR_MS = 60 * 60 * 1000;
-
-// Retry configuration
-const MAX_RETRIES = 3;
-const BASE_DELAY_MS = 1000;
+// applyWrites accepts up to 200 writes per call
+const BATCH_SIZE = 200;
 
 interface DeleteProgress {
   current: number;
   total: number;
   rkey: string;
   success: boolean;
+  /** The PDS said the record wasn't there to delete */
+  missing?: boolean;
   error?: string;
 }
 
-interface RateLimitState {
-  deletionsThisWindow: number;
-  windowStart: number;
+/**
+ * Delete a single record within the rate limit
+ * @returns true if the PDS reported the record as already gone
+ */
+async function deleteOne(limiter: RateLimiter, agent: AtpAgent, repo: string, rkey: string): Promise<boolean> {
+  try {
+    await withRateLimit(limiter, 'delete', 1, () =>
+      agent.com.atproto.repo.deleteRecord({
+        repo,
+        collection: COLLECTION,
+        rkey,
+      })
+    );
+    return false;
+  } catch (err: any) {
+    // Record doesn't exist - nothing to do (idempotent), but say so
+    if (err.status === 400 && err.message?.includes('not found')) {
+      return true;
+    }
+    throw err;
+  }
 }
 
 /**
- * Sleep for a specified duration
+ * Delete a chunk of records in one applyWrites call. Any failure other
+ * than rate limiting or a server error is thrown straight away so the
+ * caller can split the chunk.
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+async function applyDeletes(limiter: RateLimiter, agent: AtpAgent, repo: string, rkeys: string[]): Promise<void> {
+  await withRateLimit(limiter, 'delete', rkeys.length, () =>
+    agent.com.atproto.repo.applyWrites({
+      repo,
+      writes: rkeys.map((rkey) => ({
+        $type: 'com.atproto.repo.applyWrites#delete',
+        collection: COLLECTION,
+        rkey,
+      })),
+    })
+  );
 }
 
 /**
- * Delete a single record with retries
+ * Delete a chunk of records, splitting it in half on failure until the
+ * offending write is isolated and retried on its own.
  */
-async function deleteWithRetry(
+async function deleteChunk(
+  limiter: RateLimiter,
   agent: AtpAgent,
   repo: string,
-  rkey: string
+  chunk: RecordRef[],
+  report: (record: RecordRef, error?: string, missing?: boolean) => void
 ): Promise<void> {
-  let lastError: Error | undefined;
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+  if (chunk.length === 1) {
     try {
-      await agent.com.atproto.repo.deleteRecord({
-        repo,
-        collection: COLLECTION,
-        rkey,
-      });
-      return; // Success
+      const missing = await deleteOne(limiter, agent, repo, chunk[0].rkey);
+      report(chunk[0], undefined, missing);
     } catch (err: any) {
-      lastError = err;
-
-      // Handle rate limiting (HTTP 429)
-      if (err.status === 429) {
-        const resetHeader = err.headers?.['ratelimit-reset'];
-        const waitMs = resetHeader
-          ? (parseInt(resetHeader, 10) * 1000 - Date.now())
-          : 60000;
-
-        console.log(`\nRate limited. Waiting ${Math.ceil(waitMs / 1000)}s...`);
-        await sleep(Math.max(waitMs, 1000));
-        continue;
-      }
-
-      // Record doesn't exist - treat as success (idempotent)
-      if (err.status === 400 && err.message?.includes('not found')) {
-        return;
-      }
-
-      // For other errors, exponential backoff
-      if (attempt < MAX_RETRIES - 1) {
-        const delay = BASE_DELAY_MS * Math.pow(2, attempt);
-        console.log(`\nRetrying in ${delay}ms after error: ${err.message}`);
-        await sleep(delay);
-      }
+      report(chunk[0], err.message);
     }
+    return;
   }
 
-  throw lastError || new Error('Delete failed after retries');
-}
-
-/**
- * Check and enforce rate limits
- */
-async function enforceRateLimit(state: RateLimitState): Promise<void> {
-  const now = Date.now();
-
-  // Reset window if hour has passed
-  if (now - state.windowStart >= HOUR_MS) {
-    state.deletionsThisWindow = 0;
-    state.windowStart = now;
+  try {
+    await applyDeletes(
+      limiter,
+      agent,
+      repo,
+      chunk.map((r) => r.rkey)
+    );
+  } catch {
+    const mid = Math.ceil(chunk.length / 2);
+    await deleteChunk(limiter, agent, repo, chunk.slice(0, mid), report);
+    await deleteChunk(limiter, agent, repo, chunk.slice(mid), report);
+    return;
   }
 
-  // If we're at the limit, wait for window to reset
-  if (state.deletionsThisWindow >= MAX_DELETIONS_PER_HOUR) {
-    const waitMs = HOUR_MS - (now - state.windowStart);
-    console.log(
-      `\nRate limit approaching. Waiting ${Math.ceil(waitMs / 60000)} minutes for rate limit window to reset...`
-    );
-    await sleep(waitMs + 1000); // Add 1s buffer
-    state.deletionsThisWindow = 0;
-    state.windowStart = Date.now();
+  for (const record of chunk) {
+    report(record);
   }
 }
 
 /**
- * Delete records with rate limiting and progress reporting
+ * Delete records in batches with rate limiting and progress reporting.
+ * Up to `concurrency` batches are in flight at once, all drawing on one
+ * budget, so a 429 seen by any of them pauses the rest; progress is still
+ * reported in the order the records were given.
+ *
+ * Records the PDS says are already gone are counted as missing rather
+ * than deleted, though most PDSes accept deleting a missing record
+ * silently; `verifyDeletions()` checks what is actually left.
  * @param agent - Authenticated ATP agent
  * @param repo - DID or handle of the repo
  * @param records - Records to delete
- * @param onProgress - Progress callback
+ * @param onProgress - Progress callback, called once per record in order
+ * @param limiter - Write budget to draw from; defaults to the one saved
+ *   for the repo by earlier runs
+ * @param concurrency - Number of batches to send at once
  */
 export async function deleteRecords(
   agent: AtpAgent,
   repo: string,
   records: RecordRef[],
-  onProgress?: (progress: DeleteProgress) => void
-): Promise<{ deleted: number; failed: number; errors: string[] }> {
-  const rateLimit: RateLimitState = {
-    deletionsThisWindow: 0,
-    windowStart: Date.now(),
-  };
-
+  onProgress?: (progress: DeleteProgress) => void,
+  limiter: RateLimiter = loadRateLimiter(repo),
+  concurrency = 1
+): Promise<{ deleted: number; missing: number; failed: number; errors: string[] }> {
   let deleted = 0;
+  let missing = 0;
   let failed = 0;
+  let current = 0;
   const errors: string[] = [];
 
-  for (let i = 0; i < records.length; i++) {
-    const record = records[i];
-
-    // Enforce rate limits before each deletion
-    await enforceRateLimit(rateLimit);
+  const report = (record: RecordRef, error?: string, gone = false) => {
+    current++;
 
-    try {
-      await deleteWithRetry(agent, repo, record.rkey);
-      deleted++;
-      rateLimit.deletionsThisWindow++;
-
-      if (onProgress) {
-        onProgress({
-          current: i + 1,
-          total: records.length,
-          rkey: record.rkey,
-          success: true,
-        });
-      }
-    } catch (err: any) {
+    if (error === undefined) {
+      if (gone) missing++;
+      else deleted++;
+    } else {
       failed++;
-      const errorMsg = `Failed to delete ${record.rkey}: ${err.message}`;
-      errors.push(errorMsg);
-
-      if (onProgress) {
-        onProgress({
-          current: i + 1,
-          total: records.length,
-          rkey: record.rkey,
-          success: false,
-          error: err.message,
-        });
-      }
+      errors.push(`Failed to delete ${record.rkey}: ${error}`);
+    }
+
+    if (onProgress) {
+      onProgress({
+        current,
+        total: records.length,
+        rkey: record.rkey,
+        success: error === undefined,
+        missing: gone || undefined,
+        error,
+      });
     }
+  };
 
-    // Small delay between deletions to be gentle on the server
-    await sleep(50);
+  // Smaller batches when there are few records, so every worker gets some
+  const batchSize = Math.max(1, Math.min(BATCH_SIZE, Math.ceil(records.length / concurrency)));
+  const chunks: RecordRef[][] = [];
+  for (let i = 0; i < records.length; i += batchSize) {
+    chunks.push(records.slice(i, i + batchSize));
   }
 
-  return { deleted, failed, errors };
+  // Outcomes of finished chunks, held back until every earlier chunk is done
+  const finished = new Map<number, { record: RecordRef; error?: string; missing?: boolean }[]>();
+  let nextToReport = 0;
+  let nextToSend = 0;
+
+  const worker = async () => {
+    while (nextToSend < chunks.length) {
+      const index = nextToSend++;
+      const outcomes: { record: RecordRef; error?: string; missing?: boolean }[] = [];
+      await deleteChunk(limiter, agent, repo, chunks[index], (record, error, gone) =>
+        outcomes.push({ record, error, missing: gone })
+      );
+      finished.set(index, outcomes);
+
+      while (finished.has(nextToReport)) {
+        for (const { record, error, missing: gone } of finished.get(nextToReport)!) report(record, error, gone);
+        finished.delete(nextToReport++);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return { deleted, missing, failed, errors };
 }
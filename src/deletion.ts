@@ -0,0 +1,341 @@
+import { AtpAgent } from '@atproto/api';
+import { openSync } from 'fs';
+import { createInterface } from 'readline';
+import { ReadStream } from 'tty';
+import { updateCache } from './cache.js';
+import { printJson, printNotice, type OptionSpec } from './command.js';
+import { deleteRecords } from './deleter.js';
+import { writeJournal } from './journal.js';
+import { loadRateLimiter } from './ratelimit.js';
+import { verifyDeletions, writeReport, type ReportRecord } from './reconcile.js';
+import {
+  createPlan,
+  indexTargets,
+  markTarget,
+  savePlan,
+  type DeletionPlan,
+} from './plan.js';
+import { COLLECTION, type RecordRef } from './records.js';
+import { checkTargets } from './targets.js';
+import { formatTid } from './tid.js';
+
+// How often (in records) to write deletion progress to the plan file
+const PLAN_SAVE_INTERVAL = 100;
+
+// Delete batches in flight at once, by default and at most
+const DEFAULT_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 32;
+
+export const CONCURRENCY_OPTION: OptionSpec = {
+  name: '--concurrency',
+  value: 'n',
+  description: `Delete batches to send at once, within the same rate limit (default: ${DEFAULT_CONCURRENCY})`,
+};
+
+export const VERIFY_OPTION: OptionSpec = {
+  name: '--verify',
+  description: 'After deleting, check the records are gone and delete any still there again',
+};
+
+export interface DeletionRun {
+  /** Records to delete, oldest first */
+  records: RecordRef[];
+  /** How the records were selected, saved in the plan file */
+  description: string;
+  dryRun: boolean;
+  /** Plan of an interrupted run being resumed, and where it lives */
+  resumed?: { plan: DeletionPlan; path: string };
+  /** Delete batches to send at once */
+  concurrency?: number;
+  /** Ask for confirmation on the terminal, because stdin carried the targets */
+  confirmOnTerminal?: boolean;
+  /** Targets found to be gone already while planning, reported as such */
+  missing?: string[];
+  /** Check the records are gone afterwards, retrying any still there */
+  verify?: boolean;
+}
+
+/**
+ * Check targets planned from a cache or CAR against the PDS, which may have
+ * moved on since, so only records still there are deleted. Exits if the PDS
+ * can't be checked.
+ * @param noun - What the targets are called in messages, e.g. `matches`
+ * @returns The targets still there, oldest first, and the rkeys that aren't
+ */
+export async function checkSnapshotTargets(
+  agent: AtpAgent,
+  repo: string,
+  records: RecordRef[],
+  noun: string
+): Promise<{ records: RecordRef[]; missing: string[] }> {
+  console.log(`\nChecking ${records.length} ${noun} on the PDS...`);
+  try {
+    const { found, missing } = await checkTargets(
+      agent,
+      repo,
+      records.map((r) => r.rkey),
+      (checked) => process.stdout.write(`\rChecked: ${checked}/${records.length}`),
+      printNotice
+    );
+    if (missing.length > 0) console.log(`\n${missing.length} ${noun} no longer exist and are skipped`);
+    return { records: found, missing };
+  } catch (err: any) {
+    console.error(`\nCould not check ${noun}, nothing was deleted: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse `--concurrency=<n>`, exiting on anything outside 1..32
+ */
+export function parseConcurrency(arg: string): number {
+  const value = arg.slice('--concurrency='.length);
+  const concurrency = parseInt(value, 10);
+  if (isNaN(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY || String(concurrency) !== value) {
+    console.error(`Invalid concurrency: ${value} (expected 1 to ${MAX_CONCURRENCY})`);
+    process.exit(1);
+  }
+  return concurrency;
+}
+
+/**
+ * Open the controlling terminal for reading, for when stdin is taken
+ */
+function openTerminal(): ReadStream {
+  try {
+    return new ReadStream(openSync('/dev/tty', 'r'));
+  } catch {
+    console.error('Error: stdin carried the targets and there is no terminal to confirm on');
+    console.error('Use --rkeys-file instead, or --dry-run to preview');
+    process.exit(1);
+  }
+}
+
+export async function confirm(message: string, input: NodeJS.ReadableStream = process.stdin): Promise<boolean> {
+  const rl = createInterface({
+    input,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} (yes/no): `, (answer) => {
+      rl.close();
+      if (input !== process.stdin) (input as ReadStream).destroy();
+      resolve(answer.toLowerCase() === 'yes');
+    });
+  });
+}
+
+/**
+ * Preview, confirm, journal and delete a set of records, then exit.
+ * Shared by every CLI that deletes, so they all get the same safety steps.
+ * @param agent - Authenticated ATP agent
+ * @param repo - DID of the repo
+ * @param run - Records to delete and how to handle them
+ */
+export async function runDeletion(
+  agent: AtpAgent,
+  repo: string,
+  run: DeletionRun
+): Promise<never> {
+  const { records, description, dryRun, resumed, concurrency = DEFAULT_CONCURRENCY, confirmOnTerminal, verify = false } = run;
+
+  // Show preview
+  console.log(`Found ${records.length} records to delete:`);
+  console.log('-'.repeat(50));
+
+  // Show first 10 and last 5 if there are many
+  const previewCount = Math.min(records.length, 10);
+  for (let i = 0; i < previewCount; i++) {
+    console.log(`  ${formatTid(records[i].rkey)}`);
+  }
+
+  if (records.length > 15) {
+    console.log(`  ... (${records.length - 15} more)`);
+    for (let i = records.length - 5; i < records.length; i++) {
+      console.log(`  ${formatTid(records[i].rkey)}`);
+    }
+  } else if (records.length > 10) {
+    for (let i = 10; i < records.length; i++) {
+      console.log(`  ${formatTid(records[i].rkey)}`);
+    }
+  }
+
+  console.log('-'.repeat(50));
+  console.log(`Time range: ${records[0].createdAt.toISOString()} to ${records[records.length - 1].createdAt.toISOString()}`);
+  console.log('');
+
+  if (dryRun) {
+    printJson({
+      dryRun,
+      description,
+      records: records.map(({ rkey, uri, createdAt }) => ({ rkey, uri, createdAt })),
+    });
+    console.log('DRY RUN complete. No records were deleted.');
+    console.log('Run without --dry-run to delete these records.');
+    process.exit(0);
+  }
+
+  // Confirm deletion
+  const confirmed = await confirm(
+    resumed
+      ? `\nAre you sure you want to delete the remaining ${records.length} records?`
+      : `\nAre you sure you want to delete ${records.length} records? A backup journal will be written first.`,
+    confirmOnTerminal ? openTerminal() : undefined
+  );
+
+  if (!confirmed) {
+    printJson({ dryRun, description, aborted: true });
+    console.log('Aborted.');
+    process.exit(0);
+  }
+
+  let plan: DeletionPlan;
+  let planPath: string;
+
+  if (resumed) {
+    ({ plan, path: planPath } = resumed);
+  } else {
+    // Back up full record values before anything is deleted
+    let journalPath: string;
+    try {
+      journalPath = writeJournal(repo, records);
+    } catch (err: any) {
+      console.error(`Failed to write backup journal, nothing was deleted: ${err.message}`);
+      process.exit(1);
+    }
+    console.log(`\nBackup journal written to ${journalPath}`);
+    console.log(`Restore with: npm run restore -- --journal=${journalPath}`);
+
+    ({ plan, path: planPath } = createPlan(repo, records, description, journalPath));
+  }
+  console.log(`Plan written to ${planPath}`);
+  console.log(`If interrupted, resume with: npm start -- --resume=${planPath}`);
+
+  // Save progress if the run is interrupted
+  process.on('SIGINT', () => {
+    savePlan(plan, planPath);
+    console.log(`\n\nInterrupted. Resume with: npm start -- --resume=${planPath}`);
+    process.exit(130);
+  });
+
+  // Delete records
+  console.log(`\nDeleting records (${concurrency} batch${concurrency === 1 ? '' : 'es'} at a time)...`);
+  const startedAt = new Date();
+
+  // Outcome of every planned record, for the report
+  const outcomes: ReportRecord[] = [];
+  const targets = indexTargets(plan);
+  const limiter = loadRateLimiter(repo, undefined, printNotice);
+  await deleteRecords(
+    agent,
+    repo,
+    records,
+    (progress) => {
+      const target = targets.get(progress.rkey);
+      if (target) markTarget(target, progress.error);
+      if (progress.current % PLAN_SAVE_INTERVAL === 0) savePlan(plan, planPath);
+
+      outcomes.push({
+        rkey: progress.rkey,
+        uri: records[progress.current - 1].uri,
+        outcome: progress.error !== undefined ? 'failed' : progress.missing ? 'already-done' : 'done',
+        attempts: 1,
+        error: progress.error,
+      });
+
+      const percent = ((progress.current / progress.total) * 100).toFixed(1);
+      const status = progress.error !== undefined ? 'FAILED' : progress.missing ? 'Missing' : 'Deleted';
+      process.stdout.write(
+        `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
+      );
+    },
+    limiter,
+    concurrency
+  );
+  console.log('\n');
+
+  for (const rkey of run.missing ?? []) {
+    outcomes.push({ rkey, uri: `at://${repo}/${COLLECTION}/${rkey}`, outcome: 'already-done', attempts: 0 });
+  }
+
+  let verified = false;
+  if (verify) {
+    console.log('Verifying...');
+    try {
+      await verifyDeletions(agent, repo, outcomes, limiter, concurrency, console.log);
+      verified = true;
+    } catch (err: any) {
+      console.error(`Verification stopped, outcomes are as the PDS reported them: ${err.message}`);
+    }
+
+    // Retries and records found still there change the plan too
+    for (const outcome of outcomes) {
+      const target = targets.get(outcome.rkey);
+      if (target) markTarget(target, outcome.outcome === 'done' || outcome.outcome === 'already-done' ? undefined : outcome.error);
+    }
+    console.log('');
+  }
+  savePlan(plan, planPath);
+
+  // Keep the local cache, if any, in step with what was deleted
+  updateCache(repo, {
+    deleted: plan.targets.filter((t) => t.status === 'deleted').map((t) => t.rkey),
+  });
+
+  let reportPath: string | undefined;
+  try {
+    reportPath = writeReport({
+      operation: 'delete',
+      repo,
+      description,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      verified,
+      journal: plan.journal,
+      plan: planPath,
+      records: outcomes,
+    });
+  } catch (err: any) {
+    console.error(`Failed to write the run report: ${err.message}`);
+  }
+
+  const count = (outcome: ReportRecord['outcome']) => outcomes.filter((o) => o.outcome === outcome).length;
+  const errors = outcomes.filter((o) => o.error !== undefined).map((o) => `Failed to delete ${o.rkey}: ${o.error}`);
+
+  const duration = ((Date.now() - startedAt.getTime()) / 1000).toFixed(1);
+  console.log('='.repeat(50));
+  console.log(`Completed in ${duration}s`);
+  console.log(`  Deleted: ${count('done')}`);
+  console.log(`  Already missing: ${count('already-done')}`);
+  console.log(`  Failed: ${count('failed')}`);
+  if (verified) console.log(`  Still present: ${count('not-done')}`);
+  if (plan.journal) console.log(`  Journal: ${plan.journal}`);
+  console.log(`  Plan: ${planPath}`);
+  if (reportPath) console.log(`  Report: ${reportPath}`);
+
+  if (errors.length > 0) {
+    console.log('\nErrors:');
+    for (const error of errors.slice(0, 10)) {
+      console.log(`  - ${error}`);
+    }
+    if (errors.length > 10) {
+      console.log(`  ... and ${errors.length - 10} more${reportPath ? `, all listed in ${reportPath}` : ''}`);
+    }
+  }
+
+  printJson({
+    dryRun,
+    description,
+    deleted: count('done'),
+    missing: count('already-done'),
+    failed: count('failed'),
+    stillPresent: verified ? count('not-done') : undefined,
+    verified,
+    journal: plan.journal,
+    plan: planPath,
+    report: reportPath,
+    errors,
+  });
+  process.exit(errors.length > 0 ? 1 : 0);
+}
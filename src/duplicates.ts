@@ -0,0 +1,95 @@
+import { artistNames, type PlayRecord } from './play.js';
+import type { RecordRef } from './records.js';
+
+export interface DuplicateGroup {
+  /** The copy to keep: the earliest-created record */
+  canonical: RecordRef;
+  /** Later copies of the same play, oldest first */
+  extras: RecordRef[];
+}
+
+/**
+ * Normalize a metadata string for comparison: trimmed, lowercased,
+ * whitespace collapsed
+ */
+export function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function normalizedArtists(value: PlayRecord | undefined): string {
+  return artistNames(value)
+    .map(normalize)
+    .sort()
+    .join(', ');
+}
+
+/**
+ * Key identifying the same track by the same artists, on any release
+ */
+export function trackKey(value: PlayRecord | undefined): string {
+  return [normalize(value?.trackName), normalizedArtists(value)].join('\u0000');
+}
+
+/**
+ * Key identifying the same track on the same release, ignoring playedTime
+ */
+function contentKey(value: PlayRecord | undefined): string {
+  return [trackKey(value), normalize(value?.releaseName)].join('\u0000');
+}
+
+/**
+ * Find records that are copies of the same play: same normalized trackName,
+ * artists and releaseName, with playedTimes within `toleranceSec` of the
+ * first copy. Records without a parseable playedTime are ignored.
+ * @param records - Records to check (must carry their `value`)
+ * @param toleranceSec - Max seconds between playedTimes of copies
+ * @returns Groups with more than one copy, ordered by playedTime
+ */
+export function findDuplicateGroups(records: RecordRef[], toleranceSec: number): DuplicateGroup[] {
+  const toleranceMs = toleranceSec * 1000;
+  const byContent = new Map<string, { record: RecordRef; playedAt: number }[]>();
+
+  for (const record of records) {
+    const playedAt = Date.parse(record.value?.playedTime ?? '');
+    if (isNaN(playedAt)) continue;
+
+    const key = contentKey(record.value);
+    const plays = byContent.get(key) ?? [];
+    plays.push({ record, playedAt });
+    byContent.set(key, plays);
+  }
+
+  const groups: { playedAt: number; group: DuplicateGroup }[] = [];
+
+  for (const plays of byContent.values()) {
+    if (plays.length < 2) continue;
+    plays.sort((a, b) => a.playedAt - b.playedAt);
+
+    // Cluster plays relative to the first play of each cluster, so a chain
+    // of plays each just inside the tolerance isn't merged into one
+    let cluster = [plays[0]];
+    const flush = () => {
+      if (cluster.length > 1) {
+        const copies = cluster
+          .map((p) => p.record)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        groups.push({
+          playedAt: cluster[0].playedAt,
+          group: { canonical: copies[0], extras: copies.slice(1) },
+        });
+      }
+    };
+
+    for (let i = 1; i < plays.length; i++) {
+      if (plays[i].playedAt - cluster[0].playedAt <= toleranceMs) {
+        cluster.push(plays[i]);
+      } else {
+        flush();
+        cluster = [plays[i]];
+      }
+    }
+    flush();
+  }
+
+  return groups.sort((a, b) => a.playedAt - b.playedAt).map((g) => g.group);
+}
@@ -0,0 +1,238 @@
+import { updateCache } from './cache.js';
+import { carSource } from './car.js';
+import { CAR_OPTION, DRY_RUN_OPTION, printNotice, usageError, type Command } from './command.js';
+import { confirm } from './deletion.js';
+import {
+  applyEdits,
+  diffValues,
+  parseAssignment,
+  parseSubstitution,
+  type FieldChange,
+  type FieldEdit,
+} from './edits.js';
+import {
+  artistSelector,
+  FILTER_OPTIONS,
+  listFilterCandidates,
+  matchesFilter,
+  parseFilterArg,
+  printFilter,
+  validateFilter,
+  type PlayFilter,
+} from './filters.js';
+import { writeJournal } from './journal.js';
+import { loadRateLimiter } from './ratelimit.js';
+import type { PlayRecord } from './play.js';
+import { pdsSource, type RecordRef } from './records.js';
+import { loadConfig, login } from './session.js';
+import { formatTid, tidToDate } from './tid.js';
+import { putRecords } from './writer.js';
+
+// How many per-record diffs to print before summarising the rest
+const PREVIEW_LIMIT = 50;
+
+interface CliArgs {
+  filter: PlayFilter;
+  edits: FieldEdit[];
+  dryRun: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  const filter: PlayFilter = { timeSource: 'tid' };
+  const edits: FieldEdit[] = [];
+  let dryRun = false;
+  let car = false;
+
+  for (const arg of args) {
+    try {
+      if (arg === '--dry-run') {
+        dryRun = true;
+      } else if (arg === '--car') {
+        car = true;
+      } else if (arg.startsWith('--set=')) {
+        edits.push(parseAssignment('set', arg.slice('--set='.length)));
+      } else if (arg.startsWith('--default=')) {
+        edits.push(parseAssignment('default', arg.slice('--default='.length)));
+      } else if (arg.startsWith('--sub=')) {
+        edits.push(parseSubstitution(arg.slice('--sub='.length)));
+      } else {
+        parseFilterArg(arg, filter);
+      }
+    } catch (err: any) {
+      console.error(`Invalid edit ${arg}: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  if (edits.length === 0) {
+    usageError(command, 'Provide at least one --set, --default or --sub edit');
+  }
+
+  validateFilter(filter);
+
+  return { filter, edits, dryRun, car };
+}
+
+function formatChange(change: FieldChange): string {
+  const show = (v: unknown) => (v === undefined ? '(unset)' : JSON.stringify(v));
+  return `${change.path}: ${show(change.before)} → ${show(change.after)}`;
+}
+
+async function run(args: string[]) {
+  const { filter, edits, dryRun, car } = parseArgs(args);
+
+  const cfg = loadConfig();
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nEdit fm.teal.alpha.feed.play records`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}`);
+  printFilter(filter);
+  console.log(`Edits: ${edits.length}`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}`);
+  console.log('');
+
+  const { agent, repo } = await login(cfg);
+
+  console.log('Scanning records...');
+  const originals: RecordRef[] = [];
+  const updates: { rkey: string; value: PlayRecord; swapRecord?: string; changes: FieldChange[] }[] = [];
+  let scanned = 0;
+  let matched = 0;
+
+  const selectArtist = artistSelector(filter);
+  const source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  for await (const record of listFilterCandidates(source, filter, printNotice)) {
+    scanned++;
+    if (scanned % 500 === 0) {
+      process.stdout.write(`\rScanned: ${scanned}, Matched: ${matched}`);
+    }
+
+    if (!matchesFilter(record, filter)) continue;
+    matched++;
+
+    // Artist-level edits only touch the artists the filter selected
+    const after = applyEdits(record.value, edits, selectArtist);
+    const changes = diffValues(record.value, after);
+    if (changes.length === 0) continue;
+
+    let createdAt: Date;
+    try {
+      createdAt = tidToDate(record.rkey);
+    } catch {
+      createdAt = new Date(0);
+    }
+
+    originals.push({ rkey: record.rkey, uri: record.uri, createdAt, value: record.value });
+    // Only replace the version read here, in case a CAR or a slow scan is behind
+    updates.push({ rkey: record.rkey, value: after, swapRecord: record.cid, changes });
+  }
+
+  console.log(`\rScanned: ${scanned}, Matched: ${matched}, To change: ${updates.length}\n`);
+
+  if (updates.length === 0) {
+    console.log('No records would change.');
+    process.exit(0);
+  }
+
+  // Show per-record diffs
+  console.log(`${updates.length} records to update:`);
+  console.log('-'.repeat(50));
+
+  for (const update of updates.slice(0, PREVIEW_LIMIT)) {
+    console.log(`  ${formatTid(update.rkey)}`);
+    for (const change of update.changes) {
+      console.log(`    ${formatChange(change)}`);
+    }
+  }
+  if (updates.length > PREVIEW_LIMIT) {
+    console.log(`  ... (${updates.length - PREVIEW_LIMIT} more)`);
+  }
+
+  console.log('-'.repeat(50));
+  console.log('');
+
+  if (dryRun) {
+    console.log('DRY RUN complete. No records were changed.');
+    console.log('Run without --dry-run to apply these edits.');
+    process.exit(0);
+  }
+
+  const confirmed = await confirm(
+    `\nAre you sure you want to update ${updates.length} records? A backup journal will be written first.`
+  );
+
+  if (!confirmed) {
+    console.log('Aborted.');
+    process.exit(0);
+  }
+
+  // Back up the current values so the edit can be undone with `npm run restore`
+  let journalPath: string;
+  try {
+    journalPath = writeJournal(repo, originals, 'edit');
+  } catch (err: any) {
+    console.error(`Failed to write backup journal, nothing was changed: ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`\nBackup journal written to ${journalPath}`);
+  console.log(`Undo with: npm run restore -- --journal=${journalPath}`);
+
+  console.log('\nUpdating records...');
+  const startTime = Date.now();
+
+  const written = new Set<string>();
+  const result = await putRecords(agent, repo, updates, (progress) => {
+    if (progress.success) written.add(progress.rkey);
+    const percent = ((progress.current / progress.total) * 100).toFixed(1);
+    const status = progress.success ? 'Updated' : 'FAILED';
+    process.stdout.write(
+      `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
+    );
+  }, 'update', loadRateLimiter(repo, undefined, printNotice));
+
+  // Keep the local cache, if any, in step with what was written
+  updateCache(repo, { written: updates.filter((w) => written.has(w.rkey)) });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log('\n');
+  console.log('='.repeat(50));
+  console.log(`Completed in ${duration}s`);
+  console.log(`  Updated: ${result.written}`);
+  console.log(`  Failed: ${result.failed}`);
+  console.log(`  Journal: ${journalPath}`);
+
+  if (result.errors.length > 0) {
+    console.log('\nErrors:');
+    for (const error of result.errors.slice(0, 10)) {
+      console.log(`  - ${error}`);
+    }
+    if (result.errors.length > 10) {
+      console.log(`  ... and ${result.errors.length - 10} more`);
+    }
+  }
+
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+export const command: Command = {
+  name: 'edit',
+  summary: 'Bulk edit fields of the records matching a filter',
+  usage: ['<filters> (--set=<field>=<value> | --default=<field>=<value> | --sub=<field>/<regex>/<replacement>/)... [--car] [--dry-run]'],
+  options: [
+    ...FILTER_OPTIONS,
+    { name: '--set', value: 'field=value', description: 'Set a field', repeatable: true },
+    { name: '--default', value: 'field=value', description: 'Set a field only where it is missing', repeatable: true },
+    { name: '--sub', value: 'field/regex/replacement/', description: 'Regex replace within a field', repeatable: true },
+    CAR_OPTION,
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--artistName="Planning For Burial" --set=artistName="Planning for Burial" --dry-run',
+    '--albumName="* - Single" --sub="releaseName/ - Single$//"',
+    '--albumName="Below the House" --default=releaseMbId=<mbid>',
+  ],
+  run,
+};
@@ -0,0 +1,171 @@
+import type { PlayRecord } from './play.js';
+
+// Top-level string fields of a play record that can be edited
+const RECORD_FIELDS = [
+  'trackName',
+  'trackMbId',
+  'recordingMbId',
+  'releaseName',
+  'releaseMbId',
+  'isrc',
+  'originUrl',
+  'musicServiceBaseDomain',
+  'submissionClientAgent',
+];
+
+// Fields of each entry in `artists`
+const ARTIST_FIELDS = ['artistName', 'artistMbId'];
+
+// A record value or artist viewed as a plain object, to reach fields by name
+type Fields = { [field: string]: unknown };
+
+export const EDITABLE_FIELDS = [...RECORD_FIELDS, ...ARTIST_FIELDS];
+
+/**
+ * A change to one field:
+ * - set: always replace the value
+ * - default: set the value only where it is missing or empty
+ * - sub: regex search-and-replace on the existing value
+ */
+export type FieldEdit =
+  | { kind: 'set'; field: string; value: string }
+  | { kind: 'default'; field: string; value: string }
+  | { kind: 'sub'; field: string; pattern: RegExp; replacement: string };
+
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function checkField(field: string): void {
+  if (!EDITABLE_FIELDS.includes(field)) {
+    throw new Error(`Unknown field: ${field} (expected one of ${EDITABLE_FIELDS.join(', ')})`);
+  }
+}
+
+/**
+ * Parse a `set`/`default` spec of the form `<field>=<value>`
+ */
+export function parseAssignment(kind: 'set' | 'default', spec: string): FieldEdit {
+  const eq = spec.indexOf('=');
+  if (eq <= 0) {
+    throw new Error(`Expected <field>=<value>, got: ${spec}`);
+  }
+
+  const field = spec.slice(0, eq);
+  checkField(field);
+  return { kind, field, value: spec.slice(eq + 1) };
+}
+
+/**
+ * Parse a sed-style substitution of the form `<field>/<regex>/<replacement>/<flags>`.
+ * Any non-word character after the field name works as the delimiter, and
+ * can be escaped with a backslash inside the pattern or replacement.
+ */
+export function parseSubstitution(spec: string): FieldEdit {
+  const match = spec.match(/^(\w+)(\W)/);
+  if (!match) {
+    throw new Error(`Expected <field>/<regex>/<replacement>/, got: ${spec}`);
+  }
+
+  const [, field, delim] = match;
+  checkField(field);
+
+  const parts: string[] = [''];
+  const rest = spec.slice(match[0].length);
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === '\\' && rest[i + 1] === delim) {
+      parts[parts.length - 1] += delim;
+      i++;
+    } else if (rest[i] === delim) {
+      parts.push('');
+    } else {
+      parts[parts.length - 1] += rest[i];
+    }
+  }
+
+  if (parts.length !== 3) {
+    throw new Error(`Expected <field>${delim}<regex>${delim}<replacement>${delim}[flags], got: ${spec}`);
+  }
+
+  const [source, replacement, flags] = parts;
+  return { kind: 'sub', field, pattern: new RegExp(source, flags), replacement };
+}
+
+/**
+ * Apply one edit to a field value, returning the new value
+ */
+function editValue(current: unknown, edit: FieldEdit): unknown {
+  switch (edit.kind) {
+    case 'set':
+      return edit.value;
+    case 'default':
+      return current == null || current === '' ? edit.value : current;
+    case 'sub':
+      return typeof current === 'string' ? current.replace(edit.pattern, edit.replacement) : current;
+  }
+}
+
+/**
+ * Apply edits to a copy of a record value
+ * @param value - Original record value (left untouched)
+ * @param edits - Edits to apply, in order
+ * @param selectArtist - If given, artist-level edits only touch artists
+ *   whose name it accepts
+ * @returns The edited copy
+ */
+export function applyEdits(
+  value: PlayRecord,
+  edits: FieldEdit[],
+  selectArtist?: (artistName: string) => boolean
+): PlayRecord {
+  const result = structuredClone(value);
+  const fields = result as unknown as Fields;
+
+  for (const edit of edits) {
+    if (RECORD_FIELDS.includes(edit.field)) {
+      const next = editValue(fields[edit.field], edit);
+      if (next !== fields[edit.field]) fields[edit.field] = next;
+      continue;
+    }
+
+    for (const artist of result.artists ?? []) {
+      if (selectArtist && !selectArtist(artist?.artistName ?? '')) continue;
+      const artistFields = artist as unknown as Fields;
+      const next = editValue(artistFields[edit.field], edit);
+      if (next !== artistFields[edit.field]) artistFields[edit.field] = next;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * List the fields that differ between two record values
+ */
+export function diffValues(before: PlayRecord | undefined, after: PlayRecord | undefined): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fieldOf = (value: object | undefined, field: string) => (value as Fields | undefined)?.[field];
+
+  for (const field of RECORD_FIELDS) {
+    const a = fieldOf(before, field);
+    const b = fieldOf(after, field);
+    if (a !== b) {
+      changes.push({ path: field, before: a, after: b });
+    }
+  }
+
+  const artistCount = Math.max(before?.artists?.length ?? 0, after?.artists?.length ?? 0);
+  for (let i = 0; i < artistCount; i++) {
+    for (const field of ARTIST_FIELDS) {
+      const a = fieldOf(before?.artists?.[i], field);
+      const b = fieldOf(after?.artists?.[i], field);
+      if (a !== b) {
+        changes.push({ path: `artists[${i}].${field}`, before: a, after: b });
+      }
+    }
+  }
+
+  return changes;
+}
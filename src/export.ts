@@ -0,0 +1,192 @@
+import { once } from 'events';
+import { createWriteStream, type WriteStream } from 'fs';
+import { cacheSource, requireCache } from './cache.js';
+import { carSource } from './car.js';
+import { CAR_OPTION, OFFLINE_OPTION, printNotice, usageError, type Command } from './command.js';
+import { EXPORT_FORMATS, getExporter, type ExportFormat } from './exporters.js';
+import {
+  FILTER_OPTIONS,
+  listFilterCandidates,
+  matchesFilter,
+  parseFilterArg,
+  printFilter,
+  validateFilter,
+  type PlayFilter,
+} from './filters.js';
+import { pdsSource, type RecordSource } from './records.js';
+import { connect, loadConfig } from './session.js';
+
+interface CliArgs {
+  filter: PlayFilter;
+  format: ExportFormat;
+  output?: string;
+  offline: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  const filter: PlayFilter = { timeSource: 'tid' };
+  let format: ExportFormat | undefined;
+  let output: string | undefined;
+  let offline = false;
+  let car = false;
+
+  for (const arg of args) {
+    if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--format=')) {
+      const value = arg.slice('--format='.length);
+      if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+        console.error(`Invalid format: ${value} (expected ${EXPORT_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      format = value as ExportFormat;
+    } else if (arg.startsWith('--output=')) {
+      output = arg.slice('--output='.length);
+    } else {
+      parseFilterArg(arg, filter);
+    }
+  }
+
+  if (!format) {
+    usageError(command);
+  }
+
+  validateFilter(filter, false);
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
+    process.exit(1);
+  }
+
+  return { filter, format, output, offline, car };
+}
+
+/**
+ * Exit on a write error; a closed pipe (e.g. `| head`) just ends the export
+ */
+function outputFailed(err: any, output: string | undefined): never {
+  if (err.code === 'EPIPE') process.exit(0);
+  console.error(`\nCould not write to ${output ?? 'stdout'}: ${err.message}`);
+  process.exit(1);
+}
+
+/**
+ * Open the export's destination. Stream errors are caught as soon as the
+ * stream exists and surface at the next write, so an unwritable file or
+ * a closed pipe neither crashes the process nor leaves a write waiting
+ * for a drain that never comes.
+ */
+function openOutput(output: string | undefined) {
+  const stream: WriteStream | NodeJS.WriteStream = output ? createWriteStream(output) : process.stdout;
+  let failure: Error | undefined;
+  stream.on('error', (err) => (failure ??= err));
+
+  return {
+    /** Write a chunk, waiting for the stream to drain if its buffer is full */
+    async write(chunk: string): Promise<void> {
+      try {
+        if (failure) throw failure;
+        // once() rejects if the stream errors while we wait
+        if (chunk && !stream.write(chunk)) await once(stream, 'drain');
+      } catch (err) {
+        outputFailed(err, output);
+      }
+    },
+    /** Flush and close a file; stdout is left open */
+    async close(): Promise<void> {
+      try {
+        if (failure) throw failure;
+        if (output) {
+          (stream as WriteStream).end();
+          await once(stream, 'finish');
+        }
+      } catch (err) {
+        outputFailed(err, output);
+      }
+    },
+  };
+}
+
+async function run(args: string[]) {
+  const { filter, format, output, offline, car } = parseArgs(args);
+
+  // Status goes to stderr when the export itself is written to stdout
+  const log = output ? console.log : console.error;
+
+  const cfg = loadConfig(false);
+  const { handle, pdsUrl } = cfg;
+
+  log(`\nExport fm.teal.alpha.feed.play records`);
+  log('='.repeat(40));
+  log(`Handle: ${handle}`);
+  log(`PDS: ${offline ? '(offline)' : pdsUrl ?? '(from the DID document)'}`);
+  log(`Format: ${format}`);
+  log(`Output: ${output ?? '(stdout)'}`);
+  if (output) printFilter(filter);
+  log('');
+
+  let source: RecordSource;
+
+  if (offline) {
+    source = cacheSource(requireCache(handle, log));
+  } else {
+    const { agent, repo } = await connect(cfg, log);
+    source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  }
+
+  const exporter = getExporter(format);
+  const out = openOutput(output);
+  let scanned = 0;
+  let exported = 0;
+  // Records the format can't represent, by reason
+  const skipped = new Map<string, number>();
+
+  await out.write(exporter.begin());
+
+  for await (const record of listFilterCandidates(source, filter, printNotice)) {
+    scanned++;
+    if (output && scanned % 500 === 0) {
+      process.stdout.write(`\rScanned: ${scanned}, Exported: ${exported}`);
+    }
+
+    if (!matchesFilter(record, filter)) continue;
+
+    const reason = exporter.unsupported?.(record);
+    if (reason) {
+      skipped.set(reason, (skipped.get(reason) ?? 0) + 1);
+      continue;
+    }
+    await out.write(exporter.record(record, exported === 0));
+    exported++;
+  }
+
+  await out.write(exporter.end());
+  await out.close();
+
+  log(`${output ? '\r' : ''}Scanned ${scanned.toLocaleString()} records, exported ${exported.toLocaleString()}.`);
+  for (const [reason, count] of skipped) {
+    log(`Skipped ${count.toLocaleString()} records: ${reason}`);
+  }
+}
+
+export const command: Command = {
+  name: 'export',
+  summary: 'Write plays to CSV, JSONL, ListenBrainz or Last.fm files',
+  usage: [`--format=${EXPORT_FORMATS.join('|')} [--output=<file>] [filters] [--offline|--car]`],
+  options: [
+    { name: '--format', value: EXPORT_FORMATS.join('|'), description: 'Output format' },
+    { name: '--output', value: 'file', description: 'File to write (default: stdout)' },
+    ...FILTER_OPTIONS,
+    OFFLINE_OPTION,
+    CAR_OPTION,
+  ],
+  examples: [
+    '--format=csv --output=plays.csv',
+    '--format=listenbrainz --start=2024-01-01 --end=2024-12-31 --output=2024.json',
+    '--format=jsonl --artistName="Planning*" > planning.jsonl',
+  ],
+  run,
+};
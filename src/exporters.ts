@@ -0,0 +1,185 @@
+import { artistMbIds, artistNames } from './play.js';
+import type { ListedRecord } from './records.js';
+import { tidToDate } from './tid.js';
+
+export const EXPORT_FORMATS = ['csv', 'jsonl', 'listenbrainz', 'lastfm'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Turns records into chunks of output text, one record at a time, so an
+ * export can be streamed to disk
+ */
+export interface Exporter {
+  extension: string;
+  /** Text written before the first record */
+  begin(): string;
+  /** Text for one record; `first` is true for the first record written */
+  record(record: ListedRecord, first: boolean): string;
+  /** Why a record can't be written in this format, if it can't; such records are skipped */
+  unsupported?(record: ListedRecord): string | undefined;
+  /** Text written after the last record */
+  end(): string;
+}
+
+const CSV_COLUMNS = [
+  'rkey',
+  'uri',
+  'createdAt',
+  'playedTime',
+  'trackName',
+  'artists',
+  'releaseName',
+  'duration',
+  'isrc',
+  'trackMbId',
+  'recordingMbId',
+  'releaseMbId',
+  'artistMbIds',
+  'originUrl',
+  'musicServiceBaseDomain',
+  'submissionClientAgent',
+];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break (RFC 4180)
+ */
+function csvField(value: unknown): string {
+  if (value == null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(fields: unknown[]): string {
+  return fields.map(csvField).join(',') + '\n';
+}
+
+function createdAtIso(rkey: string): string | undefined {
+  try {
+    return tidToDate(rkey).toISOString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * When the play happened: `playedTime` if it's usable, otherwise the
+ * record's creation time
+ */
+function playedAt(record: ListedRecord): Date | undefined {
+  const played = new Date(record.value?.playedTime ?? '');
+  if (!isNaN(played.getTime())) return played;
+  try {
+    return tidToDate(record.rkey);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Last.fm export date format, e.g. `31 Jan 2024 18:05` (UTC)
+ */
+function lastfmDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getUTCDate())} ${MONTHS[date.getUTCMonth()]} ${date.getUTCFullYear()} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+/**
+ * A ListenBrainz listen for a record with a play time
+ * (https://listenbrainz.readthedocs.io/en/latest/users/json.html)
+ */
+function listenbrainzListen(record: ListedRecord): object {
+  const v = record.value;
+  const played = playedAt(record);
+
+  const additionalInfo: { [key: string]: unknown } = {
+    recording_mbid: v?.recordingMbId,
+    release_mbid: v?.releaseMbId,
+    track_mbid: v?.trackMbId,
+    artist_mbids: artistMbIds(v),
+    // Lets `npm run import` split a joined artist_name back up
+    artist_names: artistNames(v).length > 1 ? artistNames(v) : undefined,
+    isrc: v?.isrc,
+    duration_ms: typeof v?.duration === 'number' ? v.duration * 1000 : undefined,
+    origin_url: v?.originUrl,
+    music_service: v?.musicServiceBaseDomain,
+    submission_client: v?.submissionClientAgent,
+  };
+  for (const key of Object.keys(additionalInfo)) {
+    const value = additionalInfo[key];
+    if (value == null || (Array.isArray(value) && value.length === 0)) delete additionalInfo[key];
+  }
+
+  return {
+    listened_at: Math.floor(played!.getTime() / 1000),
+    track_metadata: {
+      artist_name: artistNames(v).join(', '),
+      track_name: v?.trackName,
+      release_name: v?.releaseName,
+      additional_info: additionalInfo,
+    },
+  };
+}
+
+const EXPORTERS: { [F in ExportFormat]: Exporter } = {
+  // One row per play with every lexicon field; multiple artists joined with "; "
+  csv: {
+    extension: 'csv',
+    begin: () => csvRow(CSV_COLUMNS),
+    record: ({ rkey, uri, value: v }) =>
+      csvRow([
+        rkey,
+        uri,
+        createdAtIso(rkey),
+        v?.playedTime,
+        v?.trackName,
+        artistNames(v).join('; '),
+        v?.releaseName,
+        v?.duration,
+        v?.isrc,
+        v?.trackMbId,
+        v?.recordingMbId,
+        v?.releaseMbId,
+        (v?.artists ?? []).map((a) => a?.artistMbId ?? '').join('; '),
+        v?.originUrl,
+        v?.musicServiceBaseDomain,
+        v?.submissionClientAgent,
+      ]),
+    end: () => '',
+  },
+
+  // The records as stored, one JSON object per line
+  jsonl: {
+    extension: 'jsonl',
+    begin: () => '',
+    record: ({ rkey, uri, value }) => JSON.stringify({ uri, rkey, createdAt: createdAtIso(rkey), value }) + '\n',
+    end: () => '',
+  },
+
+  // A listen submission of type "import", streamed as one JSON document
+  listenbrainz: {
+    extension: 'json',
+    begin: () => '{"listen_type":"import","payload":[\n',
+    record: (record, first) => (first ? '' : ',\n') + JSON.stringify(listenbrainzListen(record)),
+    // ListenBrainz rejects listens without a listened_at
+    unsupported: (record) => (playedAt(record) ? undefined : 'no playedTime or TID to use as listened_at'),
+    end: () => '\n]}\n',
+  },
+
+  // Header-less artist,album,track,date rows, as written by Last.fm CSV exporters
+  lastfm: {
+    extension: 'csv',
+    begin: () => '',
+    record: (record) => {
+      const v = record.value;
+      const played = playedAt(record);
+      return csvRow([artistNames(v).join(', '), v?.releaseName, v?.trackName, played && lastfmDate(played)]);
+    },
+    end: () => '',
+  },
+};
+
+export function getExporter(format: ExportFormat): Exporter {
+  return EXPORTERS[format];
+}
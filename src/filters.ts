@@ -0,0 +1,187 @@
+import { TIME_SOURCE_OPTION, type OptionSpec } from './command.js';
+import {
+  listRecordsInRange,
+  TIME_SOURCES,
+  type ListedRecord,
+  type RecordSource,
+  type TimeSource,
+} from './records.js';
+import { artistNames, type PlayRecord } from './play.js';
+import { artistPatterns, globToRegex, matchesQuery, parseQuery, type QueryNode } from './query.js';
+
+/**
+ * Metadata and time filters shared by the search and edit tools.
+ * Metadata filters are glob patterns; all filters, including the query
+ * expression, are combined with AND.
+ */
+export interface PlayFilter {
+  artistName?: string;
+  albumName?: string;
+  trackName?: string;
+  start?: Date;
+  end?: Date;
+  timeSource: TimeSource;
+  /** Query expression as typed, and parsed */
+  queryText?: string;
+  query?: QueryNode;
+}
+
+export const FILTER_USAGE = '--artistName=, --albumName=, --trackName=, --start=, --end=, --query=';
+
+export const FILTER_OPTIONS: OptionSpec[] = [
+  { name: '--artistName', value: 'glob', description: 'Match any artist name (case-insensitive, * wildcards)' },
+  { name: '--albumName', value: 'glob', description: 'Match the release name' },
+  { name: '--trackName', value: 'glob', description: 'Match the track name' },
+  { name: '--start', value: 'ISO8601', description: 'Only records from this time on' },
+  { name: '--end', value: 'ISO8601', description: 'Only records up to this time' },
+  TIME_SOURCE_OPTION,
+  { name: '--query', value: 'expression', description: 'Query expression of field:value terms, e.g. "service:music.apple.com played:2025-03"' },
+];
+
+/**
+ * Apply one command-line argument to a filter
+ * @returns true if the argument was a filter flag, false otherwise
+ */
+export function parseFilterArg(arg: string, filter: PlayFilter): boolean {
+  if (arg.startsWith('--artistName=')) {
+    filter.artistName = arg.slice('--artistName='.length);
+  } else if (arg.startsWith('--albumName=')) {
+    filter.albumName = arg.slice('--albumName='.length);
+  } else if (arg.startsWith('--trackName=')) {
+    filter.trackName = arg.slice('--trackName='.length);
+  } else if (arg.startsWith('--start=')) {
+    filter.start = new Date(arg.slice(8));
+    if (isNaN(filter.start.getTime())) {
+      console.error(`Invalid start date: ${arg.slice(8)}`);
+      process.exit(1);
+    }
+  } else if (arg.startsWith('--end=')) {
+    filter.end = new Date(arg.slice(6));
+    if (isNaN(filter.end.getTime())) {
+      console.error(`Invalid end date: ${arg.slice(6)}`);
+      process.exit(1);
+    }
+  } else if (arg.startsWith('--query=')) {
+    filter.queryText = arg.slice('--query='.length);
+    try {
+      filter.query = parseQuery(filter.queryText);
+    } catch (err: any) {
+      console.error(`Invalid query: ${err.message}`);
+      process.exit(1);
+    }
+  } else if (arg.startsWith('--time-source=')) {
+    const value = arg.slice('--time-source='.length);
+    if (!TIME_SOURCES.includes(value as TimeSource)) {
+      console.error(`Invalid time source: ${value} (expected ${TIME_SOURCES.join(', ')})`);
+      process.exit(1);
+    }
+    filter.timeSource = value as TimeSource;
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Exit with an error unless the filter selects something and its range is valid
+ * @param requireFilter - Whether an empty filter (matching everything) is an error
+ */
+export function validateFilter(filter: PlayFilter, requireFilter = true): void {
+  const { artistName, albumName, trackName, start, end, query } = filter;
+
+  if (requireFilter && !artistName && !albumName && !trackName && !start && !end && !query) {
+    console.error(`Error: Provide at least one filter: ${FILTER_USAGE}`);
+    process.exit(1);
+  }
+
+  if (start && end && start > end) {
+    console.error('Error: start date must be before end date');
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the active filters, one per line
+ */
+export function printFilter(filter: PlayFilter): void {
+  const { artistName, albumName, trackName, start, end, timeSource, queryText } = filter;
+
+  if (queryText) console.log(`Query: ${queryText}`);
+  if (artistName) console.log(`Artist: ${artistName}`);
+  if (albumName) console.log(`Album: ${albumName}`);
+  if (trackName) console.log(`Track: ${trackName}`);
+  if (start || end) {
+    console.log(`Time range: ${start?.toISOString() ?? 'beginning'} to ${end?.toISOString() ?? 'now'} (${timeSource})`);
+  }
+}
+
+/**
+ * The active filters on one line, for plan files
+ */
+export function describeFilter(filter: PlayFilter): string {
+  const { artistName, albumName, trackName, start, end, timeSource, queryText } = filter;
+  const parts: string[] = [];
+
+  if (queryText) parts.push(`query ${queryText}`);
+  if (artistName) parts.push(`artist ${artistName}`);
+  if (albumName) parts.push(`album ${albumName}`);
+  if (trackName) parts.push(`track ${trackName}`);
+  if (start || end) {
+    parts.push(`${start?.toISOString() ?? 'beginning'} to ${end?.toISOString() ?? 'now'} (${timeSource})`);
+  }
+  return parts.join(', ');
+}
+
+function matches(value: string | undefined, pattern: string): boolean {
+  if (value == null) return false;
+  return globToRegex(pattern).test(value);
+}
+
+/**
+ * Check a record against the filter's metadata patterns and query.
+ * `--start`/`--end` are applied while listing; see `listFilterCandidates`.
+ */
+export function matchesFilter(record: { rkey: string; value?: PlayRecord }, filter: PlayFilter): boolean {
+  const { artistName, albumName, trackName, query } = filter;
+  const value = record.value;
+
+  if (artistName && !artistNames(value).some((name) => matches(name, artistName))) {
+    return false;
+  }
+  if (albumName && !matches(value?.releaseName, albumName)) return false;
+  if (trackName && !matches(value?.trackName, trackName)) return false;
+  if (query && !matchesQuery(query, record)) return false;
+
+  return true;
+}
+
+/**
+ * Build a test for the artists a filter selected: those matching
+ * `--artistName`, and any of the query's `artist:` terms
+ * @returns undefined if the filter doesn't restrict artists
+ */
+export function artistSelector(filter: PlayFilter): ((artistName: string) => boolean) | undefined {
+  const patterns = filter.query ? artistPatterns(filter.query) : [];
+  if (!filter.artistName && patterns.length === 0) return undefined;
+
+  return (artistName) =>
+    (!filter.artistName || matches(artistName, filter.artistName)) &&
+    (patterns.length === 0 || patterns.some((pattern) => pattern.test(artistName)));
+}
+
+/**
+ * List the records a filter's time range covers: only that part of the
+ * collection when a range is given, otherwise everything
+ * @param onWarning - Called with a line about records the range skips
+ */
+export function listFilterCandidates(
+  source: RecordSource,
+  filter: PlayFilter,
+  onWarning?: (message: string) => void
+): AsyncGenerator<ListedRecord> {
+  const { start, end, timeSource } = filter;
+
+  return start || end
+    ? listRecordsInRange(source, start ?? new Date(0), end ?? new Date(), undefined, timeSource, onWarning)
+    : source.list();
+}
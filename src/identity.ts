@@ -0,0 +1,106 @@
+/**
+ * Resolve a handle to its DID and the DID to the account's PDS, the same
+ * way AT Protocol clients do: DNS TXT `_atproto.<handle>` or
+ * `https://<handle>/.well-known/atproto-did`, then the DID document from
+ * plc.directory (`did:plc`) or the domain itself (`did:web`)
+ */
+import { resolveTxt } from 'dns/promises';
+
+const PLC_DIRECTORY = 'https://plc.directory';
+const FETCH_TIMEOUT_MS = 10_000;
+
+export interface Identity {
+  did: string;
+  /** Handle the DID document claims, if any */
+  handle?: string;
+  pdsUrl: string;
+}
+
+/**
+ * The parts of a DID document used here. Typed, not checked: documents
+ * come from anywhere, so each field is checked before use.
+ */
+interface DidDocument {
+  alsoKnownAs?: unknown;
+  service?: unknown;
+}
+
+interface DidService {
+  id?: unknown;
+  serviceEndpoint?: unknown;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) {
+    throw new Error(`${url} returned ${res.status}`);
+  }
+  return res.text();
+}
+
+/**
+ * Resolve a handle to a DID, trying DNS first and then HTTPS
+ */
+export async function resolveHandle(handle: string): Promise<string> {
+  try {
+    const records = await resolveTxt(`_atproto.${handle}`);
+    for (const chunks of records) {
+      const record = chunks.join('');
+      if (record.startsWith('did=')) return record.slice('did='.length);
+    }
+  } catch {
+    // No TXT record; fall back to the well-known file
+  }
+
+  try {
+    const did = (await fetchText(`https://${handle}/.well-known/atproto-did`)).trim();
+    if (did.startsWith('did:')) return did;
+  } catch {
+    // Reported below
+  }
+
+  throw new Error(`Could not resolve handle ${handle}`);
+}
+
+/**
+ * Fetch a DID document and pick out the PDS endpoint and claimed handle
+ */
+export async function resolveDid(did: string): Promise<Identity> {
+  let url: string;
+  if (did.startsWith('did:plc:')) {
+    url = `${PLC_DIRECTORY}/${did}`;
+  } else if (did.startsWith('did:web:')) {
+    url = `https://${decodeURIComponent(did.slice('did:web:'.length))}/.well-known/did.json`;
+  } else {
+    throw new Error(`Unsupported DID method: ${did}`);
+  }
+
+  const doc: DidDocument = JSON.parse(await fetchText(url)) ?? {};
+  const services: DidService[] = Array.isArray(doc.service) ? doc.service.filter((s) => s != null) : [];
+  const pdsUrl = services.find((s) => s.id === '#atproto_pds' || s.id === `${did}#atproto_pds`)?.serviceEndpoint;
+  if (typeof pdsUrl !== 'string') {
+    throw new Error(`DID document for ${did} has no PDS endpoint`);
+  }
+
+  const names: unknown[] = Array.isArray(doc.alsoKnownAs) ? doc.alsoKnownAs : [];
+  const aka = names.find((a): a is string => typeof a === 'string' && a.startsWith('at://'));
+  return { did, handle: aka?.slice('at://'.length), pdsUrl };
+}
+
+/**
+ * Resolve a handle or DID to the account's DID and PDS. A handle must be
+ * confirmed by the DID document, so a stale or spoofed handle can't point
+ * a run at someone else's repo.
+ */
+export async function resolveIdentity(handleOrDid: string): Promise<Identity> {
+  if (handleOrDid.startsWith('did:')) {
+    return resolveDid(handleOrDid);
+  }
+
+  const handle = handleOrDid.replace(/^@/, '').toLowerCase();
+  const identity = await resolveDid(await resolveHandle(handle));
+  if (identity.handle?.toLowerCase() !== handle) {
+    throw new Error(`${identity.did} does not claim the handle ${handle} (it claims ${identity.handle ?? 'none'})`);
+  }
+  return identity;
+}
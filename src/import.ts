@@ -0,0 +1,281 @@
+import { updateCache } from './cache.js';
+import { carSource } from './car.js';
+import { CAR_OPTION, DRY_RUN_OPTION, printNotice, usageError, type Command } from './command.js';
+import { confirm } from './deletion.js';
+import {
+  createPlayIndex,
+  detectImportFormat,
+  IMPORT_FORMATS,
+  readImport,
+  rkeyForPlay,
+  type ImportFormat,
+  type ImportedPlay,
+} from './importers.js';
+import { artistNames } from './play.js';
+import { loadRateLimiter } from './ratelimit.js';
+import { listRecordsInRange, pdsSource } from './records.js';
+import { loadConfig, login } from './session.js';
+import { formatTid } from './tid.js';
+import { createRecords, type RecordWrite } from './writer.js';
+
+interface CliArgs {
+  file: string;
+  format: ImportFormat;
+  start?: Date;
+  end?: Date;
+  tolerance: number;
+  car: boolean;
+  dryRun: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  let file: string | undefined;
+  let format: ImportFormat | undefined;
+  let start: Date | undefined;
+  let end: Date | undefined;
+  let tolerance = 60;
+  let car = false;
+  let dryRun = false;
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--file=')) {
+      file = arg.slice('--file='.length);
+    } else if (arg.startsWith('--format=')) {
+      const value = arg.slice('--format='.length);
+      if (!IMPORT_FORMATS.includes(value as ImportFormat)) {
+        console.error(`Invalid format: ${value} (expected ${IMPORT_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      format = value as ImportFormat;
+    } else if (arg.startsWith('--tolerance=')) {
+      tolerance = parseInt(arg.slice('--tolerance='.length), 10);
+      if (isNaN(tolerance) || tolerance < 0) {
+        console.error(`Invalid tolerance value: ${arg.slice('--tolerance='.length)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--start=')) {
+      start = new Date(arg.slice(8));
+      if (isNaN(start.getTime())) {
+        console.error(`Invalid start date: ${arg.slice(8)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--end=')) {
+      end = new Date(arg.slice(6));
+      if (isNaN(end.getTime())) {
+        console.error(`Invalid end date: ${arg.slice(6)}`);
+        process.exit(1);
+      }
+    }
+  }
+
+  if (!file) {
+    usageError(command);
+  }
+
+  if (start && end && start > end) {
+    console.error('Error: start date must be before end date');
+    process.exit(1);
+  }
+
+  return { file, format: format ?? detectImportFormat(file), start, end, tolerance, car, dryRun };
+}
+
+function describePlay(rkey: string, play: ImportedPlay): string {
+  const v = play.value;
+  const artists = artistNames(v).join(', ');
+  return `${formatTid(rkey)} — ${v.trackName} — ${artists}${v.releaseName ? ` — ${v.releaseName}` : ''}`;
+}
+
+async function run(args: string[]) {
+  const { file, format, start, end, tolerance, car, dryRun } = parseArgs(args);
+
+  let plays: ImportedPlay[];
+  let parseErrors: string[];
+  try {
+    ({ plays, errors: parseErrors } = readImport(file, format));
+  } catch (err: any) {
+    console.error(`Could not read ${file}: ${err.message}`);
+    process.exit(1);
+  }
+
+  // Only refill the requested range, if one was given
+  plays = plays.filter((p) => (!start || p.playedTime >= start) && (!end || p.playedTime <= end));
+
+  const cfg = loadConfig();
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nImport plays into fm.teal.alpha.feed.play`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}`);
+  console.log(`File: ${file} (${format})`);
+  if (start || end) {
+    console.log(`Time range: ${start?.toISOString() ?? 'beginning'} to ${end?.toISOString() ?? 'now'} (playedTime)`);
+  }
+  console.log(`Duplicate tolerance: ${tolerance}s`);
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}`);
+  console.log('');
+
+  console.log(`Read ${plays.length} plays from ${file}`);
+  if (parseErrors.length > 0) {
+    console.log(`Skipped ${parseErrors.length} entries that could not be read:`);
+    for (const error of parseErrors.slice(0, 10)) {
+      console.log(`  - ${error}`);
+    }
+    if (parseErrors.length > 10) {
+      console.log(`  ... and ${parseErrors.length - 10} more`);
+    }
+  }
+  console.log('');
+
+  if (plays.length === 0) {
+    console.log('Nothing to import.');
+    process.exit(0);
+  }
+
+  const { agent, repo } = await login(cfg);
+
+  // Index the plays already in the collection around the import's time span
+  const toleranceMs = tolerance * 1000;
+  const index = createPlayIndex(toleranceMs);
+  const taken = new Set<string>();
+  const first = plays[0].playedTime.getTime() - toleranceMs;
+  const last = plays[plays.length - 1].playedTime.getTime() + toleranceMs;
+
+  console.log('Scanning existing records...');
+  const source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  const existing = listRecordsInRange(
+    source,
+    new Date(Math.max(first, 0)),
+    new Date(last),
+    (scanned) => process.stdout.write(`\rScanned: ${scanned}`),
+    'playedTime',
+    printNotice
+  );
+
+  let found = 0;
+  for await (const record of existing) {
+    index.add(record.value, new Date(record.value.playedTime!));
+    taken.add(record.rkey);
+    found++;
+  }
+  console.log(`\rFound ${found} existing plays in the import's time span\n`);
+
+  // Skip plays that already exist, including repeats within the file itself
+  const toCreate: { rkey: string; play: ImportedPlay }[] = [];
+  let skipped = 0;
+
+  for (const play of plays) {
+    if (index.has(play.value, play.playedTime)) {
+      skipped++;
+      continue;
+    }
+    index.add(play.value, play.playedTime);
+
+    toCreate.push({ rkey: rkeyForPlay(play.playedTime, taken), play });
+  }
+  const writes: RecordWrite[] = toCreate.map(({ rkey, play }) => ({ rkey, value: play.value }));
+
+  console.log(`Already present: ${skipped}`);
+  console.log(`To create: ${writes.length}\n`);
+
+  if (writes.length === 0) {
+    console.log('Nothing to import.');
+    process.exit(0);
+  }
+
+  if (dryRun) {
+    console.log('Records that would be created:');
+    console.log('-'.repeat(50));
+    for (const { rkey, play } of toCreate) {
+      console.log(`  ${describePlay(rkey, play)}`);
+    }
+    console.log('-'.repeat(50));
+    console.log('');
+    console.log('DRY RUN complete. No records were created.');
+    console.log('Run without --dry-run to import these plays.');
+    process.exit(0);
+  }
+
+  // Show a preview of the first and last plays
+  console.log('Preview (first 10):');
+  for (const { rkey, play } of toCreate.slice(0, 10)) {
+    console.log(`  ${describePlay(rkey, play)}`);
+  }
+  if (toCreate.length > 15) {
+    console.log(`  ... (${toCreate.length - 15} more)`);
+  }
+  if (toCreate.length > 10) {
+    console.log('Preview (last 5):');
+    for (const { rkey, play } of toCreate.slice(Math.max(10, toCreate.length - 5))) {
+      console.log(`  ${describePlay(rkey, play)}`);
+    }
+  }
+
+  const confirmed = await confirm(`\nCreate ${writes.length} records?`);
+
+  if (!confirmed) {
+    console.log('Aborted.');
+    process.exit(0);
+  }
+
+  console.log('\nCreating records...');
+  const startTime = Date.now();
+
+  const written = new Set<string>();
+  const result = await createRecords(agent, repo, writes, (progress) => {
+    if (progress.success) written.add(progress.rkey);
+    const percent = ((progress.current / progress.total) * 100).toFixed(1);
+    const status = progress.success ? 'Created' : 'FAILED';
+    process.stdout.write(
+      `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
+    );
+  }, loadRateLimiter(repo, undefined, printNotice));
+
+  // Keep the local cache, if any, in step with what was written
+  updateCache(repo, { written: writes.filter((w) => written.has(w.rkey)) });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log('\n');
+  console.log('='.repeat(50));
+  console.log(`Completed in ${duration}s`);
+  console.log(`  Created: ${result.written}`);
+  console.log(`  Skipped (already present): ${skipped}`);
+  console.log(`  Failed: ${result.failed}`);
+
+  if (result.errors.length > 0) {
+    console.log('\nErrors:');
+    for (const error of result.errors.slice(0, 10)) {
+      console.log(`  - ${error}`);
+    }
+    if (result.errors.length > 10) {
+      console.log(`  ... and ${result.errors.length - 10} more`);
+    }
+  }
+
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+export const command: Command = {
+  name: 'import',
+  summary: 'Create plays from a ListenBrainz or Last.fm export, skipping ones already there',
+  usage: [`--file=<path> [--format=${IMPORT_FORMATS.join('|')}] [--start=<ISO8601>] [--end=<ISO8601>] [--tolerance=<seconds>] [--car] [--dry-run]`],
+  options: [
+    { name: '--file', value: 'path', description: 'Export file to read' },
+    { name: '--format', value: IMPORT_FORMATS.join('|'), description: 'File format (default: from the extension)' },
+    { name: '--start', value: 'ISO8601', description: 'Only import plays from this time on' },
+    { name: '--end', value: 'ISO8601', description: 'Only import plays up to this time' },
+    { name: '--tolerance', value: 'seconds', description: 'How close a play must be to an existing one to count as present (default: 60)' },
+    CAR_OPTION,
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--file=listens.jsonl --dry-run',
+    '--file=scrobbles.csv --start=2024-03-01 --end=2024-03-15',
+  ],
+  run,
+};
@@ -0,0 +1,388 @@
+import { readFileSync } from 'fs';
+import { trackKey } from './duplicates.js';
+import type { PlayArtist, PlayRecord } from './play.js';
+import { COLLECTION } from './records.js';
+import { dateToTid } from './tid.js';
+
+export const IMPORT_FORMATS = ['listenbrainz', 'lastfm'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+// submissionClientAgent for records created by an import
+const CLIENT_AGENT = 'teal-editor/1.0.0 (import)';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * A play read from an export file, as the record value it will become
+ */
+export interface ImportedPlay {
+  playedTime: Date;
+  value: PlayRecord;
+}
+
+/**
+ * One listen in a ListenBrainz export, as far as an import reads it
+ * (https://listenbrainz.readthedocs.io/en/latest/users/json.html). Typed,
+ * not checked: fields may be missing or null in older exports.
+ */
+interface Listen {
+  listened_at?: number | string;
+  listened_at_iso?: string;
+  track_metadata?: {
+    track_name?: string;
+    artist_name?: string;
+    release_name?: string;
+    additional_info?: {
+      artist_names?: string[];
+      artist_mbids?: string[];
+      recording_mbid?: string;
+      release_mbid?: string;
+      track_mbid?: string;
+      isrc?: string;
+      duration_ms?: number;
+      /** Seconds, from clients that don't send `duration_ms` */
+      duration?: number;
+      origin_url?: string;
+      music_service?: string;
+      submission_client?: string;
+    };
+    mbid_mapping?: {
+      artists?: { artist_credit_name: string; artist_mbid?: string }[];
+      artist_mbids?: string[];
+      recording_mbid?: string;
+      release_mbid?: string;
+    };
+  };
+}
+
+/**
+ * Guess the format of an export from its file name
+ */
+export function detectImportFormat(path: string): ImportFormat {
+  return path.toLowerCase().endsWith('.csv') ? 'lastfm' : 'listenbrainz';
+}
+
+/**
+ * Drop undefined, null and empty-string fields so they aren't written
+ */
+function compact<T extends object>(value: T): T {
+  for (const key of Object.keys(value) as (keyof T)[]) {
+    if (value[key] == null || value[key] === '') delete value[key];
+  }
+  return value;
+}
+
+/**
+ * Build the record value for an imported play, leaving out empty fields
+ */
+function buildValue(
+  fields: Omit<PlayRecord, '$type' | 'artists' | 'playedTime'> & { artists: PlayArtist[]; playedTime: Date }
+): PlayRecord {
+  const value: PlayRecord = {
+    $type: COLLECTION,
+    ...fields,
+    artists: fields.artists.map(compact),
+    playedTime: fields.playedTime.toISOString(),
+    submissionClientAgent: fields.submissionClientAgent || CLIENT_AGENT,
+  };
+  return compact(value);
+}
+
+/**
+ * Map one ListenBrainz listen to a play
+ * (https://listenbrainz.readthedocs.io/en/latest/users/json.html)
+ */
+function parseListen(input: unknown): ImportedPlay {
+  if (input == null || typeof input !== 'object') {
+    throw new Error('listen is not an object');
+  }
+  const listen = input as Listen;
+  const meta = listen.track_metadata;
+  if (!meta?.track_name || !meta?.artist_name) {
+    throw new Error('listen has no track_name/artist_name');
+  }
+
+  const playedTime = listen.listened_at_iso
+    ? new Date(listen.listened_at_iso)
+    : new Date(Number(listen.listened_at) * 1000);
+  if (isNaN(playedTime.getTime())) {
+    throw new Error(`invalid listened_at: ${listen.listened_at}`);
+  }
+
+  const info = meta.additional_info ?? {};
+  const mapping = meta.mbid_mapping ?? {};
+
+  // Prefer the per-artist credits from MusicBrainz mapping when present
+  let artists: PlayArtist[];
+  if (Array.isArray(mapping.artists) && mapping.artists.length > 0) {
+    artists = mapping.artists.map((a) => ({
+      artistName: a.artist_credit_name,
+      artistMbId: a.artist_mbid,
+    }));
+  } else {
+    const names: string[] = Array.isArray(info.artist_names) ? info.artist_names : [meta.artist_name];
+    const mbids: string[] = info.artist_mbids ?? mapping.artist_mbids ?? [];
+    // MBIDs can only be matched up with names one-to-one
+    artists = names.map((artistName, i) => ({
+      artistName,
+      artistMbId: names.length === mbids.length ? mbids[i] : undefined,
+    }));
+  }
+
+  const durationMs = info.duration_ms ?? (info.duration != null ? info.duration * 1000 : undefined);
+
+  return {
+    playedTime,
+    value: buildValue({
+      trackName: meta.track_name,
+      artists,
+      releaseName: meta.release_name,
+      recordingMbId: info.recording_mbid ?? mapping.recording_mbid,
+      releaseMbId: info.release_mbid ?? mapping.release_mbid,
+      trackMbId: info.track_mbid,
+      isrc: info.isrc,
+      duration: durationMs != null ? Math.round(durationMs / 1000) : undefined,
+      originUrl: info.origin_url,
+      musicServiceBaseDomain: info.music_service,
+      submissionClientAgent: info.submission_client,
+      playedTime,
+    }),
+  };
+}
+
+/**
+ * Read the listens out of a ListenBrainz export: a `{payload: [...]}`
+ * submission, a JSON array of listens, or JSON lines with one listen each
+ */
+function readListens(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    const listens: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(listens)) throw new Error('not a JSON array of listens');
+    return listens;
+  }
+  if (trimmed.startsWith('{')) {
+    try {
+      const document: unknown = JSON.parse(trimmed);
+      if (document != null && typeof document === 'object' && 'payload' in document && Array.isArray(document.payload)) {
+        return document.payload;
+      }
+      return [document];
+    } catch {
+      // Not a single document: fall through to JSON lines
+    }
+  }
+  return trimmed
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch (err: any) {
+        throw new Error(`Line ${i + 1}: ${err.message}`);
+      }
+    });
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''));
+}
+
+/**
+ * Parse a Last.fm export date: Unix seconds, `31 Jan 2024 18:05` (UTC), or ISO 8601
+ */
+function parseLastfmDate(text: string): Date {
+  if (/^\d+$/.test(text)) {
+    return new Date(Number(text) * 1000);
+  }
+
+  const match = text.match(/^(\d{1,2}) ([a-z]{3}) (\d{4}),? (\d{1,2}):(\d{2})$/i);
+  if (match) {
+    const [, day, month, year, hour, minute] = match;
+    const monthIndex = MONTHS.indexOf(month.toLowerCase());
+    if (monthIndex !== -1) {
+      return new Date(Date.UTC(Number(year), monthIndex, Number(day), Number(hour), Number(minute)));
+    }
+  }
+
+  const date = new Date(text);
+  if (isNaN(date.getTime())) {
+    throw new Error(`invalid date: ${text}`);
+  }
+  return date;
+}
+
+/**
+ * Read plays from a Last.fm CSV export. Files with a header row are read
+ * by column name (artist, album, track/title, uts/date, *_mbid); files
+ * without one are taken to be `artist,album,track,date` rows.
+ */
+function readLastfm(text: string): { plays: ImportedPlay[]; errors: string[] } {
+  const rows = parseCsv(text);
+  const plays: ImportedPlay[] = [];
+  const errors: string[] = [];
+
+  const header = rows[0]?.map((f) => f.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes('artist') && header.some((f) => ['track', 'title', 'name'].includes(f));
+  const column = (...names: string[]) => {
+    const index = hasHeader ? header.findIndex((f) => names.includes(f)) : -1;
+    return index === -1 ? undefined : index;
+  };
+
+  const cols: { [key: string]: number | undefined } = hasHeader
+    ? {
+        artist: column('artist'),
+        album: column('album'),
+        track: column('track', 'title', 'name'),
+        date: column('uts', 'timestamp', 'date', 'utc_time', 'time'),
+        artistMbid: column('artist_mbid'),
+        albumMbid: column('album_mbid'),
+        trackMbid: column('track_mbid'),
+      }
+    : { artist: 0, album: 1, track: 2, date: 3 };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const rowNumber = i + (hasHeader ? 2 : 1);
+    const get = (index: number | undefined) => (index === undefined ? undefined : row[index]?.trim() || undefined);
+
+    try {
+      const artistName = get(cols.artist);
+      const trackName = get(cols.track);
+      const date = get(cols.date);
+      if (!artistName || !trackName || !date) {
+        throw new Error('missing artist, track or date');
+      }
+
+      const playedTime = parseLastfmDate(date);
+      plays.push({
+        playedTime,
+        value: buildValue({
+          trackName,
+          artists: [{ artistName, artistMbId: get(cols.artistMbid) }],
+          releaseName: get(cols.album),
+          releaseMbId: get(cols.albumMbid),
+          // Last.fm's track MBIDs are MusicBrainz recording IDs
+          recordingMbId: get(cols.trackMbid),
+          musicServiceBaseDomain: 'last.fm',
+          playedTime,
+        }),
+      });
+    } catch (err: any) {
+      errors.push(`Row ${rowNumber}: ${err.message}`);
+    }
+  });
+
+  return { plays, errors };
+}
+
+/**
+ * Read the plays from an export file
+ * @returns The plays, oldest first, and a message for each entry that
+ *   couldn't be read
+ */
+export function readImport(path: string, format: ImportFormat): { plays: ImportedPlay[]; errors: string[] } {
+  const text = readFileSync(path, 'utf8');
+  let result: { plays: ImportedPlay[]; errors: string[] };
+
+  if (format === 'lastfm') {
+    result = readLastfm(text);
+  } else {
+    result = { plays: [], errors: [] };
+    readListens(text).forEach((listen, i) => {
+      try {
+        result.plays.push(parseListen(listen));
+      } catch (err: any) {
+        result.errors.push(`Listen ${i + 1}: ${err.message}`);
+      }
+    });
+  }
+
+  result.plays.sort((a, b) => a.playedTime.getTime() - b.playedTime.getTime());
+  return result;
+}
+
+/**
+ * Plays already in the collection (or accepted earlier in the same
+ * import), by track and artists, for matching imported plays against
+ */
+export interface PlayIndex {
+  add(value: PlayRecord, playedTime: Date): void;
+  /** Whether the same track by the same artists was played within the tolerance */
+  has(value: PlayRecord, playedTime: Date): boolean;
+}
+
+export function createPlayIndex(toleranceMs: number): PlayIndex {
+  const times = new Map<string, number[]>();
+
+  return {
+    add(value, playedTime) {
+      const key = trackKey(value);
+      const list = times.get(key) ?? [];
+      list.push(playedTime.getTime());
+      times.set(key, list);
+    },
+    has(value, playedTime) {
+      const ms = playedTime.getTime();
+      return (times.get(trackKey(value)) ?? []).some((t) => Math.abs(t - ms) <= toleranceMs);
+    },
+  };
+}
+
+/**
+ * Pick an rkey for a new record from its playedTime. Plays in the same
+ * millisecond, or clashing with an existing rkey, are moved along by a
+ * microsecond (then by clock ID) so each gets its own TID.
+ * @param taken - rkeys already in use; the chosen rkey is added to it
+ */
+export function rkeyForPlay(playedTime: Date, taken: Set<string>): string {
+  for (let clockId = 0; clockId < 1024; clockId++) {
+    for (let micros = 0; micros < 1000; micros++) {
+      const rkey = dateToTid(playedTime, clockId, micros);
+      if (!taken.has(rkey)) {
+        taken.add(rkey);
+        return rkey;
+      }
+    }
+  }
+  throw new Error(`No free TID left for ${playedTime.toISOString()}`);
+}
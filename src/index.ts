@@ -1,201 +1,86 @@
-import { AtpAgent } from '@atproto/api';
-import { config } from 'dotenv';
-import { createInterface } from 'readline';
-import { getRecordsInRange } from './records.js';
-import { deleteRecords } from './deleter.js';
-import { formatTid } from './tid.js';
-
-// Load environment variables
-config();
-
-interface CliArgs {
-  start: Date;
-  end: Date;
-  dryRun: boolean;
-}
-
-function parseArgs(): CliArgs {
-  const args = process.argv.slice(2);
-  let start: Date | undefined;
-  let end: Date | undefined;
-  let dryRun = false;
-
-  for (const arg of args) {
-    if (arg === '--dry-run') {
-      dryRun = true;
-    } else if (arg.startsWith('--start=')) {
-      start = new Date(arg.slice(8));
-      if (isNaN(start.getTime())) {
-        console.error(`Invalid start date: ${arg.slice(8)}`);
-        process.exit(1);
-      }
-    } else if (arg.startsWith('--end=')) {
-      end = new Date(arg.slice(6));
-      if (isNaN(end.getTime())) {
-        console.error(`Invalid end date: ${arg.slice(6)}`);
-        process.exit(1);
-      }
-    }
-  }
-
-  if (!start || !end) {
-    console.error('Usage: npm start -- --start=<ISO8601> --end=<ISO8601> [--dry-run]');
-    console.error('');
-    console.error('Examples:');
-    console.error('  npm start -- --start=2024-03-01T00:00:00Z --end=2024-03-15T23:59:59Z --dry-run');
-    console.error('  npm start -- --start=2024-03-01 --end=2024-03-15');
-    process.exit(1);
-  }
-
-  if (start > end) {
-    console.error('Error: start date must be before end date');
-    process.exit(1);
-  }
-
-  return { start, end, dryRun };
-}
-
-async function confirm(message: string): Promise<boolean> {
-  const rl = createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(`${message} (yes/no): `, (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase() === 'yes');
-    });
-  });
-}
-
-async function main() {
-  const { start, end, dryRun } = parseArgs();
-
-  // Check environment variables
-  const handle = process.env.BLUESKY_HANDLE;
-  const appPassword = process.env.BLUESKY_APP_PASSWORD;
-  const pdsUrl = process.env.PDS_URL || 'https://bsky.social';
-
-  if (!handle || !appPassword) {
-    console.error('Error: Missing credentials');
-    console.error('Create a .env file with BLUESKY_HANDLE and BLUESKY_APP_PASSWORD');
-    console.error('See .env.example for reference');
-    process.exit(1);
-  }
-
-  console.log(`\nPDS Editor - Delete fm.teal.alpha.feed.play records`);
-  console.log('='.repeat(50));
-  console.log(`Handle: ${handle}`);
-  console.log(`PDS: ${pdsUrl}`);
-  console.log(`Time range: ${start.toISOString()} to ${end.toISOString()}`);
-  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}`);
-  console.log('');
-
-  // Authenticate
-  console.log('Authenticating...');
-  const agent = new AtpAgent({ service: pdsUrl });
-
-  try {
-    await agent.login({
-      identifier: handle,
-      password: appPassword,
-    });
-  } catch (err: any) {
-    console.error(`Authentication failed: ${err.message}`);
-    process.exit(1);
-  }
-
-  const repo = agent.session!.did;
-  console.log(`Authenticated as: ${repo}`);
-  console.log('');
-
-  // Find matching records
-  console.log('Scanning records...');
-  const records = await getRecordsInRange(agent, repo, start, end, (scanned, matched) => {
-    process.stdout.write(`\rScanned: ${scanned}, Matched: ${matched}`);
-  });
-  console.log('\n');
-
-  if (records.length === 0) {
-    console.log('No records found in the specified time range.');
-    process.exit(0);
-  }
-
-  // Show preview
-  console.log(`Found ${records.length} records to delete:`);
-  console.log('-'.repeat(50));
-
-  // Show first 10 and last 5 if there are many
-  const previewCount = Math.min(records.length, 10);
-  for (let i = 0; i < previewCount; i++) {
-    console.log(`  ${formatTid(records[i].rkey)}`);
-  }
-
-  if (records.length > 15) {
-    console.log(`  ... (${records.length - 15} more)`);
-    for (let i = records.length - 5; i < records.length; i++) {
-      console.log(`  ${formatTid(records[i].rkey)}`);
-    }
-  } else if (records.length > 10) {
-    for (let i = 10; i < records.length; i++) {
-      console.log(`  ${formatTid(records[i].rkey)}`);
-    }
-  }
-
-  console.log('-'.repeat(50));
-  console.log(`Time range: ${records[0].createdAt.toISOString()} to ${records[records.length - 1].createdAt.toISOString()}`);
-  console.log('');
-
-  if (dryRun) {
-    console.log('DRY RUN complete. No records were deleted.');
-    console.log('Run without --dry-run to delete these records.');
-    process.exit(0);
-  }
-
-  // Confirm deletion
-  const confirmed = await confirm(
-    `\nAre you sure you want to delete ${records.length} records? This cannot be undone.`
-  );
-
-  if (!confirmed) {
-    console.log('Aborted.');
-    process.exit(0);
-  }
-
-  // Delete records
-  console.log('\nDeleting records...');
-  const startTime = Date.now();
-
-  const result = await deleteRecords(agent, repo, records, (progress) => {
-    const percent = ((progress.current / progress.total) * 100).toFixed(1);
-    const status = progress.success ? 'Deleted' : 'FAILED';
-    process.stdout.write(
-      `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
-    );
-  });
-
-  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-  console.log('\n');
-  console.log('='.repeat(50));
-  console.log(`Completed in ${duration}s`);
-  console.log(`  Deleted: ${result.deleted}`);
-  console.log(`  Failed: ${result.failed}`);
-
-  if (result.errors.length > 0) {
-    console.log('\nErrors:');
-    for (const error of result.errors.slice(0, 10)) {
-      console.log(`  - ${error}`);
-    }
-    if (result.errors.length > 10) {
-      console.log(`  ... and ${result.errors.length - 10} more`);
-    }
-  }
-
-  process.exit(result.failed > 0 ? 1 : 0);
-}
-
-main().catch((err) => {
-  console.error('Fatal error:', err);
-  process.exit(1);
-});
+/**
+ * Library entry point: the building blocks the CLIs are made of, for use
+ * from other scripts. Nothing exported here calls `process.exit`; failures
+ * are thrown (or, for writes, reported in the result).
+ *
+ * ```ts
+ * import { openRepo, listAllRecords, artistNames } from 'teal-editor';
+ *
+ * const { agent, repo } = await openRepo({ handle: 'alice.example.com' });
+ * for await (const { value } of listAllRecords(agent, repo)) {
+ *   console.log(value.trackName, artistNames(value).join(', '));
+ * }
+ * ```
+ */
+
+// Records
+export { artistMbIds, artistNames, type PlayArtist, type PlayRecord } from './play.js';
+export {
+  fixRecord,
+  isPlayRecord,
+  PROBLEM_KINDS,
+  validateRecord,
+  violatesLexicon,
+  type Problem,
+  type ProblemKind,
+} from './lexicon.js';
+export { dateToTid, formatTid, tidInRange, tidToDate } from './tid.js';
+
+// Auth
+export { authenticate, openRepo, type Config, type Session } from './session.js';
+export { resolveDid, resolveHandle, resolveIdentity, type Identity } from './identity.js';
+
+// Listing
+export {
+  COLLECTION,
+  getPlayRecord,
+  getRecordsInRange,
+  listAllRecords,
+  listRecordsInRange,
+  memorySource,
+  pdsSource,
+  recordTime,
+  TIME_SOURCES,
+  type ListedRecord,
+  type ListOptions,
+  type RecordRef,
+  type RecordSource,
+  type TimeSource,
+} from './records.js';
+export { cacheSource, loadCache, syncCache, type CollectionCache, type SyncResult } from './cache.js';
+export { carSource, readRepoCar } from './car.js';
+
+// Filtering
+export { listFilterCandidates, matchesFilter, type PlayFilter } from './filters.js';
+export { matchesQuery, parseQuery, QUERY_FIELDS, type QueryNode } from './query.js';
+
+// Analysis
+export {
+  detectBlocks,
+  detectSkewBatches,
+  KEEP_STRATEGIES,
+  selectForDeletion,
+  skewMs,
+  toTimedRecord,
+  type KeepStrategy,
+  type TimedRecord,
+} from './blocks.js';
+export { findDuplicateGroups, trackKey, type DuplicateGroup } from './duplicates.js';
+export { findReplaySource, indexHistory, type HistoryIndex, type ReplayMatch } from './replays.js';
+export { compareStats, createStatsAccumulator, type Stats, type StatsOptions } from './statistics.js';
+
+// Deletion and writes
+export { deleteRecords } from './deleter.js';
+export { checkTargets, parseTargets, toTarget } from './targets.js';
+export {
+  countOutcomes,
+  verifyDeletions,
+  writeReport,
+  type RecordOutcome,
+  type ReportRecord,
+  type RunOperation,
+  type RunReport,
+} from './reconcile.js';
+export { createRecords, putRecords, type RecordWrite } from './writer.js';
+export { filterJournal, readJournal, writeJournal, type Journal, type JournalEntry } from './journal.js';
+export { loadRateLimiter, WRITE_COSTS, type RateLimiter, type WriteOperation } from './ratelimit.js';
@@ -0,0 +1,110 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PlayRecord } from './play.js';
+import { tidInRange } from './tid.js';
+import type { RecordRef } from './records.js';
+
+const COLLECTION = 'fm.teal.alpha.feed.play';
+const JOURNAL_DIR = 'journals';
+const JOURNAL_VERSION = 1;
+
+export interface JournalEntry {
+  rkey: string;
+  uri: string;
+  createdAt: string;
+  value: PlayRecord;
+}
+
+export interface Journal {
+  version: number;
+  repo: string;
+  collection: string;
+  writtenAt: string;
+  entries: JournalEntry[];
+}
+
+export interface JournalFilter {
+  rkeys?: string[];
+  start?: Date;
+  end?: Date;
+}
+
+/**
+ * Write a journal of records about to be deleted or changed, including their
+ * full current values
+ * @param repo - DID of the repo the records belong to
+ * @param records - Records to back up (must carry their `value`)
+ * @param action - What is about to happen to the records, used in the file name
+ * @param dir - Directory to write the journal into
+ * @returns Path of the written journal file
+ */
+export function writeJournal(
+  repo: string,
+  records: RecordRef[],
+  action: 'delete' | 'edit' = 'delete',
+  dir = JOURNAL_DIR
+): string {
+  const missing = records.filter((r) => r.value === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Cannot journal ${missing.length} records without values (e.g. ${missing[0].rkey})`);
+  }
+
+  const writtenAt = new Date().toISOString();
+  const journal: Journal = {
+    version: JOURNAL_VERSION,
+    repo,
+    collection: COLLECTION,
+    writtenAt,
+    entries: records.map((r) => ({
+      rkey: r.rkey,
+      uri: r.uri,
+      createdAt: r.createdAt.toISOString(),
+      value: r.value!,
+    })),
+  };
+
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${action}-${writtenAt.replace(/[:.]/g, '-')}.json`);
+  writeFileSync(path, JSON.stringify(journal, null, 2));
+  return path;
+}
+
+/**
+ * Read and validate a journal file
+ */
+export function readJournal(path: string): Journal {
+  const journal = JSON.parse(readFileSync(path, 'utf8')) as Journal;
+
+  if (journal.version !== JOURNAL_VERSION) {
+    throw new Error(`Unsupported journal version: ${journal.version}`);
+  }
+  if (journal.collection !== COLLECTION) {
+    throw new Error(`Journal is for collection ${journal.collection}, expected ${COLLECTION}`);
+  }
+  if (!Array.isArray(journal.entries)) {
+    throw new Error('Journal has no entries');
+  }
+
+  return journal;
+}
+
+/**
+ * Select the journal entries matching an rkey list and/or time range
+ */
+export function filterJournal(journal: Journal, filter: JournalFilter): JournalEntry[] {
+  const rkeys = filter.rkeys ? new Set(filter.rkeys) : undefined;
+  const start = filter.start ?? new Date(0);
+  const end = filter.end ?? new Date(8640000000000000);
+
+  return journal.entries.filter((entry) => {
+    if (rkeys && !rkeys.has(entry.rkey)) return false;
+    if (filter.start || filter.end) {
+      try {
+        return tidInRange(entry.rkey, start, end);
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  });
+}
@@ -0,0 +1,381 @@
+/**
+ * Checks play records against the `fm.teal.alpha.feed.play` lexicon
+ *
+ * Only `trackName` is required by the lexicon, but a play without artists
+ * or a `playedTime` doesn't render in most clients, so those are reported
+ * too. Optional fields must have the right type and format when present.
+ */
+import type { PlayRecord } from './play.js';
+import { COLLECTION } from './records.js';
+import { tidToDate } from './tid.js';
+
+const TID_PATTERN = /^[234567abcdefghij][234567abcdefghijklmnopqrstuvwxyz]{12}$/;
+const MBID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+// RFC 3339 date-time, as the lexicon's `datetime` format requires
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const MAX_NAME_LENGTH = 256;
+
+const STRING_FIELDS = [
+  'trackName',
+  'trackMbId',
+  'recordingMbId',
+  'releaseName',
+  'releaseMbId',
+  'isrc',
+  'originUrl',
+  'musicServiceBaseDomain',
+  'submissionClientAgent',
+  'playedTime',
+];
+const MBID_FIELDS = ['trackMbId', 'recordingMbId', 'releaseMbId'];
+
+export const PROBLEM_KINDS = [
+  'invalid-rkey',
+  'not-an-object',
+  'wrong-type',
+  'missing-track-name',
+  'missing-artists',
+  'missing-artist-name',
+  'missing-played-time',
+  'wrong-field-type',
+  'empty-string',
+  'untrimmed',
+  'too-long',
+  'invalid-datetime',
+  'invalid-mbid',
+  'invalid-isrc',
+  'invalid-url',
+  'invalid-duration',
+  'deprecated-field',
+] as const;
+export type ProblemKind = (typeof PROBLEM_KINDS)[number];
+
+export interface Problem {
+  kind: ProblemKind;
+  /** Field the problem is in, e.g. `artists[0].artistMbId` */
+  path: string;
+  message: string;
+  /** Whether `fixRecord` can repair it without losing the play */
+  fixable: boolean;
+}
+
+/** A value's fields, before anything is known about them */
+type Fields = { [field: string]: unknown };
+
+/**
+ * Whether a value is a JSON object (not null or an array)
+ */
+function isObject(value: unknown): value is Fields {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isMbid(value: string): boolean {
+  return MBID_PATTERN.test(value);
+}
+
+function normalizeMbid(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function normalizeIsrc(value: string): string {
+  return value.replace(/[-\s]/g, '').toUpperCase();
+}
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a string field's type, emptiness, whitespace and length
+ * @param required - Whether the field is required, so can't be dropped when empty
+ * @returns true if the value is a non-empty string to check further
+ */
+function checkString(
+  problems: Problem[],
+  path: string,
+  value: unknown,
+  required: boolean,
+  maxLength?: number
+): value is string {
+  if (typeof value !== 'string') {
+    problems.push({
+      kind: 'wrong-field-type',
+      path,
+      message: `expected a string, got ${Array.isArray(value) ? 'array' : typeof value}`,
+      fixable: false,
+    });
+    return false;
+  }
+  if (value.trim() === '') {
+    problems.push({ kind: 'empty-string', path, message: 'empty string', fixable: !required });
+    return false;
+  }
+  if (value !== value.trim()) {
+    problems.push({ kind: 'untrimmed', path, message: 'leading or trailing whitespace', fixable: true });
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    problems.push({
+      kind: 'too-long',
+      path,
+      message: `${value.length} characters (max ${maxLength})`,
+      fixable: false,
+    });
+  }
+  return true;
+}
+
+function checkMbid(problems: Problem[], path: string, value: string): void {
+  if (!isMbid(value)) {
+    problems.push({
+      kind: 'invalid-mbid',
+      path,
+      message: `not an MBID: ${JSON.stringify(value)}`,
+      fixable: true,
+    });
+  }
+}
+
+/**
+ * Check a record's rkey and value against the lexicon
+ * @returns Every problem found, empty if the record is valid
+ */
+export function validateRecord(record: { rkey: string; value?: unknown }): Problem[] {
+  const problems: Problem[] = [];
+
+  let validTid = TID_PATTERN.test(record.rkey);
+  if (validTid) {
+    try {
+      tidToDate(record.rkey);
+    } catch {
+      validTid = false;
+    }
+  }
+  if (!validTid) {
+    problems.push({ kind: 'invalid-rkey', path: 'rkey', message: `not a TID: ${record.rkey}`, fixable: false });
+  }
+
+  return [...problems, ...validateValue(record.value)];
+}
+
+function validateValue(value: unknown): Problem[] {
+  const problems: Problem[] = [];
+
+  if (!isObject(value)) {
+    problems.push({ kind: 'not-an-object', path: '', message: 'record value is not an object', fixable: false });
+    return problems;
+  }
+
+  if (value.$type !== COLLECTION) {
+    problems.push({
+      kind: 'wrong-type',
+      path: '$type',
+      message: `expected ${COLLECTION}, got ${JSON.stringify(value.$type)}`,
+      fixable: true,
+    });
+  }
+
+  if (value.trackName == null) {
+    problems.push({ kind: 'missing-track-name', path: 'trackName', message: 'required field missing', fixable: false });
+  }
+
+  for (const field of STRING_FIELDS) {
+    const fieldValue = value[field];
+    if (fieldValue == null) continue;
+
+    const maxLength = field === 'trackName' || field === 'releaseName' ? MAX_NAME_LENGTH : undefined;
+    if (!checkString(problems, field, fieldValue, field === 'trackName', maxLength)) continue;
+
+    if (MBID_FIELDS.includes(field)) {
+      checkMbid(problems, field, fieldValue);
+    } else if (field === 'isrc' && !ISRC_PATTERN.test(fieldValue)) {
+      problems.push({ kind: 'invalid-isrc', path: field, message: `not an ISRC: ${JSON.stringify(fieldValue)}`, fixable: true });
+    } else if (field === 'originUrl' && !isUrl(fieldValue)) {
+      problems.push({ kind: 'invalid-url', path: field, message: `not a URL: ${JSON.stringify(fieldValue)}`, fixable: true });
+    } else if (field === 'playedTime' && !DATETIME_PATTERN.test(fieldValue.trim())) {
+      problems.push({
+        kind: 'invalid-datetime',
+        path: field,
+        message: `not an ISO 8601 date-time: ${JSON.stringify(fieldValue)}`,
+        fixable: !isNaN(Date.parse(fieldValue)),
+      });
+    }
+  }
+
+  if (value.playedTime == null) {
+    problems.push({ kind: 'missing-played-time', path: 'playedTime', message: 'no playedTime', fixable: false });
+  }
+
+  const duration = value.duration;
+  if (duration != null && !(typeof duration === 'number' && Number.isInteger(duration) && duration >= 0)) {
+    problems.push({
+      kind: 'invalid-duration',
+      path: 'duration',
+      message: `expected a non-negative integer (seconds), got ${JSON.stringify(duration)}`,
+      fixable: true,
+    });
+  }
+
+  // Older clients wrote parallel name/MBID arrays instead of `artists`
+  const hasLegacyArtists = Array.isArray(value.artistNames) && value.artistNames.length > 0;
+  for (const field of ['artistNames', 'artistMbIds']) {
+    if (value[field] !== undefined) {
+      problems.push({
+        kind: 'deprecated-field',
+        path: field,
+        message: 'deprecated in favour of artists',
+        fixable: true,
+      });
+    }
+  }
+
+  if (value.artists === undefined || (Array.isArray(value.artists) && value.artists.length === 0)) {
+    problems.push({
+      kind: 'missing-artists',
+      path: 'artists',
+      message: value.artists === undefined ? 'no artists' : 'empty artists array',
+      fixable: hasLegacyArtists,
+    });
+  } else if (!Array.isArray(value.artists)) {
+    problems.push({ kind: 'wrong-field-type', path: 'artists', message: 'expected an array', fixable: false });
+  } else {
+    value.artists.forEach((artist: unknown, i: number) => {
+      const path = `artists[${i}]`;
+      if (!isObject(artist)) {
+        problems.push({ kind: 'wrong-field-type', path, message: 'expected an object', fixable: false });
+        return;
+      }
+      if (artist.artistName == null) {
+        problems.push({
+          kind: 'missing-artist-name',
+          path: `${path}.artistName`,
+          message: 'required field missing',
+          fixable: false,
+        });
+      } else {
+        checkString(problems, `${path}.artistName`, artist.artistName, true, MAX_NAME_LENGTH);
+      }
+      if (artist.artistMbId != null && checkString(problems, `${path}.artistMbId`, artist.artistMbId, false)) {
+        checkMbid(problems, `${path}.artistMbId`, artist.artistMbId);
+      }
+    });
+  }
+
+  return problems;
+}
+
+// Problems that leave a value outside the PlayRecord type, rather than
+// just short of what clients expect
+const TYPE_PROBLEMS: ProblemKind[] = [
+  'not-an-object',
+  'wrong-type',
+  'missing-track-name',
+  'missing-artist-name',
+  'wrong-field-type',
+  'invalid-duration',
+];
+
+/**
+ * Whether a problem breaks the lexicon itself: a wrong type, a missing
+ * required field or an rkey that isn't a TID. The rest (no artists, no
+ * playedTime, overlong names, formatting) leave a valid record that
+ * clients may render badly.
+ */
+export function violatesLexicon(problem: Problem): boolean {
+  return problem.kind === 'invalid-rkey' || TYPE_PROBLEMS.includes(problem.kind);
+}
+
+/**
+ * Check that a value read from anywhere has the shape of a `PlayRecord`:
+ * an object of the right `$type` whose fields have the lexicon's types.
+ * Style problems such as untrimmed strings or a missing playedTime don't
+ * count; use `validateRecord` for those.
+ */
+export function isPlayRecord(value: unknown): value is PlayRecord {
+  return !validateValue(value).some((problem) => TYPE_PROBLEMS.includes(problem.kind));
+}
+
+/**
+ * Repair what can be repaired in a copy of a record value: trim strings,
+ * drop empty or unsalvageable optional fields, normalize MBIDs, ISRCs and
+ * timestamps, round durations and move legacy artist arrays into `artists`
+ * @returns The repaired copy
+ */
+export function fixRecord(value: unknown): unknown {
+  // Nothing to repair in a value that isn't a record at all
+  if (!isObject(value)) return structuredClone(value);
+  const result = structuredClone(value);
+
+  result.$type = COLLECTION;
+
+  for (const field of STRING_FIELDS) {
+    const text = result[field];
+    if (typeof text !== 'string') continue;
+    result[field] = text.trim();
+    // A missing optional field is valid, an empty one isn't
+    if (result[field] === '' && field !== 'trackName') delete result[field];
+  }
+
+  for (const field of MBID_FIELDS) {
+    const text = result[field];
+    if (typeof text !== 'string') continue;
+    const mbid = normalizeMbid(text);
+    if (isMbid(mbid)) result[field] = mbid;
+    else delete result[field];
+  }
+
+  if (typeof result.isrc === 'string') {
+    const isrc = normalizeIsrc(result.isrc);
+    if (ISRC_PATTERN.test(isrc)) result.isrc = isrc;
+    else delete result.isrc;
+  }
+
+  if (typeof result.originUrl === 'string' && !isUrl(result.originUrl)) {
+    delete result.originUrl;
+  }
+
+  if (typeof result.playedTime === 'string' && !DATETIME_PATTERN.test(result.playedTime)) {
+    const ms = Date.parse(result.playedTime);
+    if (!isNaN(ms)) result.playedTime = new Date(ms).toISOString();
+  }
+
+  if (result.duration != null) {
+    const duration = Number(result.duration);
+    if (Number.isFinite(duration) && duration >= 0) result.duration = Math.round(duration);
+    else delete result.duration;
+  }
+
+  const noArtists = result.artists === undefined || (Array.isArray(result.artists) && result.artists.length === 0);
+  const names: unknown[] = Array.isArray(result.artistNames) ? result.artistNames : [];
+  if (noArtists && names.length > 0) {
+    const mbids: unknown[] = Array.isArray(result.artistMbIds) ? result.artistMbIds : [];
+    result.artists = names.map((artistName, i) => ({
+      artistName,
+      // Parallel arrays only line up when they're the same length
+      ...(mbids.length === names.length ? { artistMbId: mbids[i] } : {}),
+    }));
+  }
+  if (Array.isArray(result.artists) && result.artists.length > 0) {
+    delete result.artistNames;
+    delete result.artistMbIds;
+  }
+
+  const artists: unknown[] = Array.isArray(result.artists) ? result.artists : [];
+  for (const artist of artists) {
+    if (!isObject(artist)) continue;
+    if (typeof artist.artistName === 'string') artist.artistName = artist.artistName.trim();
+    if (typeof artist.artistMbId === 'string') {
+      const mbid = normalizeMbid(artist.artistMbId);
+      if (isMbid(mbid)) artist.artistMbId = mbid;
+      else delete artist.artistMbId;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,364 @@
+import { AtpAgent } from '@atproto/api';
+import { cacheSource, requireCache, updateCache } from './cache.js';
+import { carSource } from './car.js';
+import {
+  CAR_OPTION,
+  DRY_RUN_OPTION,
+  isJsonOutput,
+  OFFLINE_OPTION,
+  printJson,
+  printNotice,
+  type Command,
+} from './command.js';
+import { confirm, CONCURRENCY_OPTION, parseConcurrency, runDeletion, VERIFY_OPTION } from './deletion.js';
+import { diffValues } from './edits.js';
+import {
+  FILTER_OPTIONS,
+  listFilterCandidates,
+  matchesFilter,
+  parseFilterArg,
+  printFilter,
+  validateFilter,
+  type PlayFilter,
+} from './filters.js';
+import { writeJournal } from './journal.js';
+import {
+  fixRecord,
+  isPlayRecord,
+  PROBLEM_KINDS,
+  validateRecord,
+  violatesLexicon,
+  type Problem,
+  type ProblemKind,
+} from './lexicon.js';
+import type { PlayRecord } from './play.js';
+import { loadRateLimiter } from './ratelimit.js';
+import { pdsSource, type RecordRef, type RecordSource } from './records.js';
+import { connect, loadConfig, login } from './session.js';
+import { formatTid, tidToDate } from './tid.js';
+import { putRecords } from './writer.js';
+
+// How many example records to list per problem kind
+const EXAMPLES_PER_KIND = 5;
+
+interface CliArgs {
+  filter: PlayFilter;
+  fix: boolean;
+  delete: boolean;
+  dryRun: boolean;
+  concurrency?: number;
+  verify: boolean;
+  verbose: boolean;
+  offline: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  const filter: PlayFilter = { timeSource: 'tid' };
+  let fix = false;
+  let del = false;
+  let dryRun = false;
+  let concurrency: number | undefined;
+  let verify = false;
+  let verbose = false;
+  let offline = false;
+  let car = false;
+
+  for (const arg of args) {
+    if (arg === '--fix') {
+      fix = true;
+    } else if (arg === '--delete') {
+      del = true;
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--verbose') {
+      verbose = true;
+    } else if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--concurrency=')) {
+      concurrency = parseConcurrency(arg);
+    } else if (arg === '--verify') {
+      verify = true;
+    } else {
+      parseFilterArg(arg, filter);
+    }
+  }
+
+  validateFilter(filter, false);
+
+  if (dryRun && !fix && !del) {
+    console.error('Error: --dry-run only applies together with --fix or --delete');
+    process.exit(1);
+  }
+
+  if ((concurrency || verify) && !del) {
+    console.error('Error: --concurrency and --verify only apply together with --delete');
+    process.exit(1);
+  }
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
+    process.exit(1);
+  }
+
+  if (isJsonOutput() && (fix || del)) {
+    console.error('Error: --json only applies to the report; drop --fix and --delete');
+    process.exit(1);
+  }
+
+  if (offline && (fix || del)) {
+    console.error('Error: --fix and --delete need the live collection; drop --offline');
+    process.exit(1);
+  }
+
+  return { filter, fix, delete: del, dryRun, concurrency, verify, verbose, offline, car };
+}
+
+interface LintedRecord {
+  rkey: string;
+  uri: string;
+  cid?: string;
+  value: PlayRecord;
+  problems: Problem[];
+  /** Repaired value, if fixing leaves the record valid */
+  fixed?: PlayRecord;
+  /** Whether the record breaks the lexicon even after fixing, so may be deleted */
+  invalid: boolean;
+}
+
+function createdAt(rkey: string): Date {
+  try {
+    return tidToDate(rkey);
+  } catch {
+    return new Date(0);
+  }
+}
+
+function reportProblems(linted: LintedRecord[], verbose: boolean): void {
+  const byKind = new Map<ProblemKind, { record: LintedRecord; problem: Problem }[]>();
+  for (const record of linted) {
+    for (const problem of record.problems) {
+      const list = byKind.get(problem.kind) ?? [];
+      list.push({ record, problem });
+      byKind.set(problem.kind, list);
+    }
+  }
+
+  for (const kind of PROBLEM_KINDS) {
+    const found = byKind.get(kind);
+    if (!found) continue;
+
+    const records = new Set(found.map((f) => f.record.rkey)).size;
+    const fixable = found.every((f) => f.problem.fixable);
+    console.log(`\n${kind}: ${records} records${fixable ? ' (fixable)' : ''}`);
+    console.log('-'.repeat(50));
+
+    const shown = verbose ? found : found.slice(0, EXAMPLES_PER_KIND);
+    for (const { record, problem } of shown) {
+      console.log(`  ${formatTid(record.rkey)} ${problem.path ? `${problem.path}: ` : ''}${problem.message}`);
+    }
+    if (found.length > shown.length) {
+      console.log(`  ... and ${found.length - shown.length} more (--verbose to list all)`);
+    }
+  }
+}
+
+async function applyFixes(agent: AtpAgent, repo: string, toFix: LintedRecord[], dryRun: boolean): Promise<void> {
+  console.log(`\n${toFix.length} records to fix:`);
+  console.log('-'.repeat(50));
+  for (const record of toFix.slice(0, 50)) {
+    console.log(`  ${formatTid(record.rkey)}`);
+    for (const change of diffValues(record.value, record.fixed)) {
+      const show = (v: unknown) => (v === undefined ? '(unset)' : JSON.stringify(v));
+      console.log(`    ${change.path}: ${show(change.before)} → ${show(change.after)}`);
+    }
+  }
+  if (toFix.length > 50) {
+    console.log(`  ... (${toFix.length - 50} more)`);
+  }
+  console.log('-'.repeat(50));
+
+  if (dryRun) {
+    console.log('DRY RUN: no records were fixed.');
+    return;
+  }
+
+  const confirmed = await confirm(
+    `\nFix ${toFix.length} records? A backup journal will be written first.`
+  );
+  if (!confirmed) {
+    console.log('Skipped fixing.');
+    return;
+  }
+
+  let journalPath: string;
+  try {
+    journalPath = writeJournal(
+      repo,
+      toFix.map((r) => ({ rkey: r.rkey, uri: r.uri, createdAt: createdAt(r.rkey), value: r.value })),
+      'edit'
+    );
+  } catch (err: any) {
+    console.error(`Failed to write backup journal, nothing was changed: ${err.message}`);
+    process.exit(1);
+  }
+  console.log(`\nBackup journal written to ${journalPath}`);
+  console.log(`Undo with: npm run restore -- --journal=${journalPath}`);
+
+  console.log('\nFixing records...');
+  // Only replace the version checked, in case the cache or a CAR is behind
+  const writes = toFix.map((r) => ({ rkey: r.rkey, value: r.fixed!, swapRecord: r.cid }));
+  const written = new Set<string>();
+  const result = await putRecords(agent, repo, writes, (progress) => {
+    if (progress.success) written.add(progress.rkey);
+    const percent = ((progress.current / progress.total) * 100).toFixed(1);
+    const status = progress.success ? 'Fixed' : 'FAILED';
+    process.stdout.write(
+      `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
+    );
+  }, 'update', loadRateLimiter(repo, undefined, printNotice));
+
+  updateCache(repo, { written: writes.filter((w) => written.has(w.rkey)) });
+
+  console.log(`\n\nFixed: ${result.written}, Failed: ${result.failed}`);
+  for (const error of result.errors.slice(0, 10)) {
+    console.log(`  - ${error}`);
+  }
+  if (result.errors.length > 10) {
+    console.log(`  ... and ${result.errors.length - 10} more`);
+  }
+}
+
+async function run(args: string[]) {
+  const { filter, fix, delete: del, dryRun, concurrency, verify, verbose, offline, car } = parseArgs(args);
+
+  const cfg = loadConfig(fix || del);
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nLint fm.teal.alpha.feed.play records`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${offline ? '(offline)' : pdsUrl ?? '(from the DID document)'}`);
+  printFilter(filter);
+  if (fix || del) {
+    const actions = [fix && 'fix', del && 'delete unfixable invalid'].filter(Boolean).join(', ');
+    console.log(`Actions: ${actions}${dryRun ? ' (DRY RUN)' : ''}`);
+  }
+  console.log('');
+
+  let agent: AtpAgent | undefined;
+  let repo: string | undefined;
+  let source: RecordSource;
+
+  if (offline) {
+    source = cacheSource(requireCache(handle));
+    console.log('');
+  } else {
+    ({ agent, repo } = fix || del ? await login(cfg) : await connect(cfg));
+    source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  }
+
+  console.log('Checking records...');
+  const linted: LintedRecord[] = [];
+  let scanned = 0;
+
+  for await (const record of listFilterCandidates(source, filter, printNotice)) {
+    scanned++;
+    if (scanned % 500 === 0) {
+      process.stdout.write(`\rChecked: ${scanned}, With problems: ${linted.length}`);
+    }
+
+    if (!matchesFilter(record, filter)) continue;
+
+    const problems = validateRecord(record);
+    if (problems.length === 0) continue;
+
+    // A record is fixable if the repaired copy passes validation
+    const fixed = fixRecord(record.value);
+    const remaining = validateRecord({ rkey: record.rkey, value: fixed });
+    linted.push({
+      ...record,
+      problems,
+      fixed: remaining.length === 0 && isPlayRecord(fixed) ? fixed : undefined,
+      invalid: remaining.some(violatesLexicon),
+    });
+  }
+
+  console.log(`\rChecked ${scanned.toLocaleString()} records, ${linted.length.toLocaleString()} with problems.`);
+
+  printJson({
+    checked: scanned,
+    records: linted.map((r) => ({
+      rkey: r.rkey,
+      uri: r.uri,
+      fixable: r.fixed !== undefined,
+      invalid: r.invalid,
+      problems: r.problems,
+    })),
+  });
+
+  if (linted.length === 0) {
+    console.log('All records are valid.');
+    return;
+  }
+
+  reportProblems(linted, verbose);
+
+  const toFix = linted.filter((r) => r.fixed !== undefined);
+  // Records that stay valid under the lexicon are only ever reported
+  const invalid = linted.filter((r) => r.invalid);
+  const unfixable = linted.length - toFix.length - invalid.length;
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Records with problems: ${linted.length}`);
+  console.log(`  Fixable: ${toFix.length}`);
+  console.log(`  Not fixable, invalid under the lexicon: ${invalid.length}`);
+  console.log(`  Not fixable, but valid (reported only): ${unfixable}`);
+
+  if (!fix && !del) {
+    if (toFix.length > 0) console.log('\nRun with --fix to repair the fixable records.');
+    if (invalid.length > 0) console.log('Run with --delete to delete the records that are invalid under the lexicon.');
+    return;
+  }
+
+  if (fix && toFix.length > 0) {
+    await applyFixes(agent!, repo!, toFix, dryRun);
+  }
+
+  if (del && invalid.length > 0) {
+    const targets: RecordRef[] = invalid
+      .map((r) => ({ rkey: r.rkey, uri: r.uri, createdAt: createdAt(r.rkey), value: r.value }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    console.log('');
+    await runDeletion(agent!, repo!, {
+      records: targets,
+      description: 'Lint: records that fail lexicon validation and cannot be fixed',
+      dryRun,
+      concurrency,
+      verify,
+    });
+  }
+}
+
+export const command: Command = {
+  name: 'lint',
+  summary: 'Check records against the play lexicon, and fix or delete bad ones',
+  usage: ['[filters] [--verbose] [--fix] [--delete [--concurrency=<n>] [--verify]] [--dry-run] [--offline|--car]'],
+  options: [
+    ...FILTER_OPTIONS,
+    { name: '--verbose', description: 'List every problem, not just a few per kind' },
+    { name: '--fix', description: 'Repair the records that can be repaired' },
+    { name: '--delete', description: 'Delete the records that break the lexicon and cannot be repaired' },
+    { ...CONCURRENCY_OPTION, description: `With --delete: ${CONCURRENCY_OPTION.description}` },
+    { ...VERIFY_OPTION, description: `With --delete: ${VERIFY_OPTION.description}` },
+    DRY_RUN_OPTION,
+    { ...OFFLINE_OPTION, description: 'Check the local cache (report only)' },
+    CAR_OPTION,
+  ],
+  examples: ['--fix --dry-run', '--delete --dry-run', '--start=2024-01-01 --json'],
+  json: true,
+  run,
+};
@@ -0,0 +1,115 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { RecordRef } from './records.js';
+
+const PLAN_DIR = 'plans';
+const PLAN_VERSION = 1;
+
+export type TargetStatus = 'pending' | 'deleted' | 'failed';
+
+export interface PlanTarget {
+  rkey: string;
+  uri: string;
+  createdAt: string;
+  status: TargetStatus;
+  error?: string;
+}
+
+export interface DeletionPlan {
+  version: number;
+  repo: string;
+  createdAt: string;
+  updatedAt: string;
+  description: string;
+  journal?: string;
+  targets: PlanTarget[];
+}
+
+/**
+ * Create a new deletion plan and write it to disk
+ * @param repo - DID of the repo the records belong to
+ * @param records - Records targeted by the run
+ * @param description - Human-readable summary of how the targets were selected
+ * @param journal - Path of the backup journal for this run
+ * @param dir - Directory to write the plan into
+ * @returns The plan and the path it was written to
+ */
+export function createPlan(
+  repo: string,
+  records: RecordRef[],
+  description: string,
+  journal?: string,
+  dir = PLAN_DIR
+): { plan: DeletionPlan; path: string } {
+  const now = new Date().toISOString();
+  const plan: DeletionPlan = {
+    version: PLAN_VERSION,
+    repo,
+    createdAt: now,
+    updatedAt: now,
+    description,
+    journal,
+    targets: records.map((r) => ({
+      rkey: r.rkey,
+      uri: r.uri,
+      createdAt: r.createdAt.toISOString(),
+      status: 'pending',
+    })),
+  };
+
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `delete-${now.replace(/[:.]/g, '-')}.json`);
+  savePlan(plan, path);
+  return { plan, path };
+}
+
+/**
+ * Persist a plan, replacing the file atomically so an interrupted write
+ * never leaves a truncated plan behind
+ */
+export function savePlan(plan: DeletionPlan, path: string): void {
+  plan.updatedAt = new Date().toISOString();
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(plan, null, 2));
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Read and validate a plan file
+ */
+export function loadPlan(path: string): DeletionPlan {
+  const plan = JSON.parse(readFileSync(path, 'utf8')) as DeletionPlan;
+
+  if (plan.version !== PLAN_VERSION) {
+    throw new Error(`Unsupported plan version: ${plan.version}`);
+  }
+  if (!Array.isArray(plan.targets)) {
+    throw new Error('Plan has no targets');
+  }
+
+  return plan;
+}
+
+/**
+ * Records in a plan that still need deleting, oldest first
+ */
+export function remainingTargets(plan: DeletionPlan): RecordRef[] {
+  return plan.targets
+    .filter((t) => t.status !== 'deleted')
+    .map((t) => ({ rkey: t.rkey, uri: t.uri, createdAt: new Date(t.createdAt) }));
+}
+
+/**
+ * Look up plan targets by rkey
+ */
+export function indexTargets(plan: DeletionPlan): Map<string, PlanTarget> {
+  return new Map(plan.targets.map((t) => [t.rkey, t]));
+}
+
+/**
+ * Record the outcome of one target in the plan
+ */
+export function markTarget(target: PlanTarget, error?: string): void {
+  target.status = error === undefined ? 'deleted' : 'failed';
+  target.error = error;
+}
@@ -0,0 +1,57 @@
+/**
+ * Typed model of `fm.teal.alpha.feed.play` records, following the lexicon
+ *
+ * Values read from a PDS, cache or CAR are typed as `PlayRecord` without
+ * being checked; use `isPlayRecord` from lexicon.ts before trusting one
+ * that may have been written by another client.
+ */
+import type { COLLECTION } from './records.js';
+
+export interface PlayArtist {
+  artistName: string;
+  artistMbId?: string;
+}
+
+export interface PlayRecord {
+  $type: typeof COLLECTION;
+  trackName: string;
+  trackMbId?: string;
+  recordingMbId?: string;
+  /** Length of the track in seconds */
+  duration?: number;
+  artists?: PlayArtist[];
+  /** @deprecated Written by older clients, superseded by `artists` */
+  artistNames?: string[];
+  /** @deprecated Written by older clients, superseded by `artists` */
+  artistMbIds?: string[];
+  releaseName?: string;
+  releaseMbId?: string;
+  isrc?: string;
+  originUrl?: string;
+  musicServiceBaseDomain?: string;
+  submissionClientAgent?: string;
+  /** When the listen happened, as an RFC 3339 date-time */
+  playedTime?: string;
+}
+
+function artistsOf(play: PlayRecord | undefined): PlayArtist[] {
+  return Array.isArray(play?.artists) ? play.artists.filter((a) => a != null) : [];
+}
+
+/**
+ * Names of a play's artists, in order, skipping any that aren't strings
+ */
+export function artistNames(play: PlayRecord | undefined): string[] {
+  return artistsOf(play)
+    .map((a) => a.artistName)
+    .filter((name) => typeof name === 'string');
+}
+
+/**
+ * MusicBrainz IDs of a play's artists, for those that have one
+ */
+export function artistMbIds(play: PlayRecord | undefined): string[] {
+  return artistsOf(play)
+    .map((a) => a.artistMbId)
+    .filter((mbid): mbid is string => typeof mbid === 'string' && mbid !== '');
+}
@@ -0,0 +1,390 @@
+/**
+ * Search query language for play records
+ *
+ * A query is a list of `field:value` terms combined with AND (implicit
+ * between adjacent terms), OR and NOT (or a leading `-`), grouped with
+ * parentheses. Keywords are case-insensitive.
+ *
+ *   artist:"Planning*" (album:/below/i OR NOT track:*rain*)
+ *   client:*piper* service:music.apple.com played:2024-03
+ *
+ * Text fields take a glob (`*` wildcard, case-insensitive, quoted if it
+ * contains spaces) or a `/regex/flags` literal. Date fields take a date or
+ * partial date (`2024`, `2024-03`, `2024-03-01`, or full ISO 8601) meaning
+ * that whole period, a range `a..b` (either end may be omitted), or a
+ * comparison (`>2024-03-01`). Numeric fields take a number, a range or a
+ * comparison.
+ */
+import { artistMbIds, artistNames, type PlayRecord } from './play.js';
+import { tidToDate } from './tid.js';
+
+/**
+ * Convert a glob-style pattern to a RegExp.
+ * Supports `*` as a wildcard for any sequence of characters.
+ * Matching is case-insensitive.
+ */
+export function globToRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  const withWildcards = escaped.replace(/\*/g, '.*');
+  return new RegExp(`^${withWildcards}$`, 'i');
+}
+
+type TextField = (value: PlayRecord | undefined) => unknown[];
+
+// Text fields, each returning every value the field matches against
+const TEXT_FIELDS: { [name: string]: TextField } = {
+  artist: (v) => artistNames(v),
+  album: (v) => [v?.releaseName],
+  track: (v) => [v?.trackName],
+  service: (v) => [v?.musicServiceBaseDomain],
+  client: (v) => [v?.submissionClientAgent],
+  isrc: (v) => [v?.isrc],
+  trackMbid: (v) => [v?.trackMbId],
+  recordingMbid: (v) => [v?.recordingMbId],
+  releaseMbid: (v) => [v?.releaseMbId],
+  artistMbid: (v) => artistMbIds(v),
+  mbid: (v) => [
+    v?.trackMbId,
+    v?.recordingMbId,
+    v?.releaseMbId,
+    ...artistMbIds(v),
+  ],
+};
+
+const DATE_FIELDS = ['played', 'created'];
+const NUMBER_FIELDS = ['duration'];
+
+export const QUERY_FIELDS = [...Object.keys(TEXT_FIELDS), ...DATE_FIELDS, ...NUMBER_FIELDS];
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; field: string; pattern: RegExp }
+  | { type: 'range'; field: string; range: Range };
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'term'; field: string; value: string; regex: boolean };
+
+/**
+ * Read a quoted string starting at `i` (which points at the opening quote)
+ */
+function readQuoted(input: string, i: number): { value: string; end: number } {
+  let value = '';
+  for (let j = i + 1; j < input.length; j++) {
+    if (input[j] === '\\' && j + 1 < input.length) {
+      value += input[++j];
+    } else if (input[j] === '"') {
+      return { value, end: j + 1 };
+    } else {
+      value += input[j];
+    }
+  }
+  throw new Error(`Unterminated quote at position ${i}`);
+}
+
+/**
+ * Read a /regex/flags literal starting at `i` (which points at the opening slash)
+ */
+function readRegex(input: string, i: number): { value: string; end: number } {
+  for (let j = i + 1; j < input.length; j++) {
+    if (input[j] === '\\') {
+      j++;
+    } else if (input[j] === '/') {
+      let end = j + 1;
+      while (end < input.length && /[a-z]/i.test(input[end])) end++;
+      return { value: input.slice(i, end), end };
+    }
+  }
+  throw new Error(`Unterminated regex at position ${i}`);
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen' });
+      i++;
+    } else if (char === '-' && /[a-z(]/i.test(input[i + 1] ?? '')) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      // A bare word: keyword or field:value
+      const fieldMatch = input.slice(i).match(/^([a-z]+):/i);
+      if (!fieldMatch) {
+        const word = input.slice(i).match(/^[^\s()]+/)![0];
+        const keyword = word.toLowerCase();
+        if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+          tokens.push({ type: keyword });
+          i += word.length;
+          continue;
+        }
+        throw new Error(`Expected field:value, got "${word}" (fields: ${QUERY_FIELDS.join(', ')})`);
+      }
+
+      const field = fieldMatch[1];
+      let j = i + fieldMatch[0].length;
+      let value: string;
+      let regex = false;
+
+      if (input[j] === '"') {
+        ({ value, end: j } = readQuoted(input, j));
+      } else if (input[j] === '/') {
+        ({ value, end: j } = readRegex(input, j));
+        regex = true;
+      } else {
+        value = input.slice(j).match(/^[^\s()]*/)![0];
+        j += value.length;
+      }
+
+      if (value === '') {
+        throw new Error(`Missing value for ${field}:`);
+      }
+
+      tokens.push({ type: 'term', field, value, regex });
+      i = j;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a date or partial date into the range of milliseconds it covers
+ */
+function parseDateRange(text: string): Range {
+  const partial = text.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (partial) {
+    const [, y, m, d] = partial;
+    const year = Number(y);
+    if (d) {
+      const min = Date.UTC(year, Number(m) - 1, Number(d));
+      return { min, max: Date.UTC(year, Number(m) - 1, Number(d) + 1) - 1 };
+    }
+    if (m) {
+      const min = Date.UTC(year, Number(m) - 1, 1);
+      return { min, max: Date.UTC(year, Number(m), 1) - 1 };
+    }
+    return { min: Date.UTC(year, 0, 1), max: Date.UTC(year + 1, 0, 1) - 1 };
+  }
+
+  const ms = Date.parse(text);
+  if (isNaN(ms)) {
+    throw new Error(`Invalid date: ${text}`);
+  }
+  return { min: ms, max: ms };
+}
+
+function parseNumberRange(text: string): Range {
+  const n = Number(text);
+  if (text === '' || isNaN(n)) {
+    throw new Error(`Invalid number: ${text}`);
+  }
+  return { min: n, max: n };
+}
+
+/**
+ * Parse a range value: `x`, `a..b`, `a..`, `..b`, `>x`, `>=x`, `<x`, `<=x`
+ */
+function parseRange(value: string, parseOne: (text: string) => Range): Range {
+  const comparison = value.match(/^(>=|<=|>|<)(.+)$/);
+  if (comparison) {
+    const [, op, rest] = comparison;
+    const bound = parseOne(rest);
+    switch (op) {
+      case '>':
+        return { min: bound.max + 1, max: Infinity };
+      case '>=':
+        return { min: bound.min, max: Infinity };
+      case '<':
+        return { min: -Infinity, max: bound.min - 1 };
+      case '<=':
+        return { min: -Infinity, max: bound.max };
+    }
+  }
+
+  const dots = value.indexOf('..');
+  if (dots !== -1) {
+    const from = value.slice(0, dots);
+    const to = value.slice(dots + 2);
+    return {
+      min: from ? parseOne(from).min : -Infinity,
+      max: to ? parseOne(to).max : Infinity,
+    };
+  }
+
+  return parseOne(value);
+}
+
+function parseRegexLiteral(literal: string): RegExp {
+  const last = literal.lastIndexOf('/');
+  // Stateful flags would make repeated .test() calls skip matches
+  const flags = literal.slice(last + 1).replace(/[gy]/g, '');
+  try {
+    return new RegExp(literal.slice(1, last), flags);
+  } catch (err: any) {
+    throw new Error(`Invalid regex ${literal}: ${err.message}`);
+  }
+}
+
+function termNode(token: Extract<Token, { type: 'term' }>): QueryNode {
+  const { field, value, regex } = token;
+
+  if (Object.hasOwn(TEXT_FIELDS, field)) {
+    return { type: 'text', field, pattern: regex ? parseRegexLiteral(value) : globToRegex(value) };
+  }
+  if (regex) {
+    throw new Error(`${field}: does not take a regex`);
+  }
+  if (DATE_FIELDS.includes(field)) {
+    return { type: 'range', field, range: parseRange(value, parseDateRange) };
+  }
+  if (NUMBER_FIELDS.includes(field)) {
+    return { type: 'range', field, range: parseRange(value, parseNumberRange) };
+  }
+  throw new Error(`Unknown field: ${field} (fields: ${QUERY_FIELDS.join(', ')})`);
+}
+
+/**
+ * Parse a query string
+ * @throws Error describing the first problem found
+ */
+export function parseQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  // or := and (OR and)*
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  // and := unary ((AND)? unary)*
+  function parseAnd(): QueryNode {
+    const children = [parseUnary()];
+    while (true) {
+      const next = peek();
+      if (next?.type === 'and') {
+        pos++;
+      } else if (!next || next.type === 'or' || next.type === 'rparen') {
+        break;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  // unary := NOT unary | '(' or ')' | term
+  function parseUnary(): QueryNode {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new Error('Unexpected end of query');
+    }
+
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case 'lparen': {
+        const node = parseOr();
+        if (tokens[pos++]?.type !== 'rparen') {
+          throw new Error('Missing closing parenthesis');
+        }
+        return node;
+      }
+      case 'term':
+        return termNode(token);
+      default:
+        throw new Error(`Unexpected ${token.type.toUpperCase()}`);
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('Empty query');
+  }
+
+  const node = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected ${tokens[pos].type.toUpperCase()}`);
+  }
+  return node;
+}
+
+/**
+ * Collect the patterns of a query's `artist:` terms, leaving out negated
+ * ones: the artists a matching record was selected for
+ */
+export function artistPatterns(node: QueryNode): RegExp[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(artistPatterns);
+    case 'not':
+    case 'range':
+      return [];
+    case 'text':
+      return node.field === 'artist' ? [node.pattern] : [];
+  }
+}
+
+function rangeValue(field: string, record: { rkey: string; value?: PlayRecord }): number | undefined {
+  switch (field) {
+    case 'played': {
+      const ms = Date.parse(record.value?.playedTime ?? '');
+      return isNaN(ms) ? undefined : ms;
+    }
+    case 'created':
+      try {
+        return tidToDate(record.rkey).getTime();
+      } catch {
+        return undefined;
+      }
+    case 'duration': {
+      const duration = record.value?.duration;
+      return typeof duration === 'number' ? duration : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a parsed query against a record
+ */
+export function matchesQuery(node: QueryNode, record: { rkey: string; value?: PlayRecord }): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(child, record));
+    case 'or':
+      return node.children.some((child) => matchesQuery(child, record));
+    case 'not':
+      return !matchesQuery(node.child, record);
+    case 'text':
+      return TEXT_FIELDS[node.field](record.value).some(
+        (v) => typeof v === 'string' && node.pattern.test(v)
+      );
+    case 'range': {
+      const v = rangeValue(node.field, record);
+      return v !== undefined && v >= node.range.min && v <= node.range.max;
+    }
+  }
+}
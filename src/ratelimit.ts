@@ -0,0 +1,321 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const RATE_LIMIT_DIR = 'ratelimits';
+const RATE_LIMIT_VERSION = 1;
+
+/**
+ * The PDS limits repo writes by points rather than by request: a create
+ * costs 3, an update 2 and a delete 1, out of 5,000 points an hour
+ */
+export type WriteOperation = 'create' | 'update' | 'delete';
+
+export const WRITE_COSTS: { [O in WriteOperation]: number } = {
+  create: 3,
+  update: 2,
+  delete: 1,
+};
+
+const DEFAULT_LIMIT = 5000;
+const DEFAULT_WINDOW_MS = 60 * 60 * 1000;
+
+// Points left unused, in case other clients write to the same account
+const SAFETY_MARGIN = 0.1;
+
+// Retry configuration
+const MAX_RETRIES = 3;
+const MAX_RATE_LIMIT_WAITS = 5;
+const BASE_DELAY_MS = 1000;
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000;
+
+export interface RateLimitState {
+  version: number;
+  /** Points per window, from `ratelimit-policy`/`ratelimit-limit` */
+  limit: number;
+  windowMs: number;
+  /** Points left in the current window, from `ratelimit-remaining` */
+  remaining: number;
+  /** When the current window ends (ms since epoch), from `ratelimit-reset` */
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  repo: string;
+  path: string;
+  state: RateLimitState;
+  /** Wait every caller shares while the budget is exhausted; not saved */
+  pause?: Promise<void>;
+  /** When the shared pause ends, in ms since the epoch */
+  pauseEnd?: number;
+  /** Called with a line when writes wait or retry */
+  log?: (message: string) => void;
+}
+
+/**
+ * Sleep for a specified duration
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function freshState(limit = DEFAULT_LIMIT, windowMs = DEFAULT_WINDOW_MS): RateLimitState {
+  return {
+    version: RATE_LIMIT_VERSION,
+    limit,
+    windowMs,
+    remaining: limit,
+    resetAt: Date.now() + windowMs,
+  };
+}
+
+/**
+ * Load the write budget for a repo as the last run left it, so a run
+ * started right after another doesn't assume a full hour's worth of points
+ * @param repo - DID of the repo being written to
+ * @param dir - Directory the state files live in
+ * @param log - Called with a line when writes wait or retry
+ */
+export function loadRateLimiter(repo: string, dir = RATE_LIMIT_DIR, log?: (message: string) => void): RateLimiter {
+  const path = join(dir, `${repo.replace(/:/g, '_')}.json`);
+
+  let state: RateLimitState;
+  try {
+    state = JSON.parse(readFileSync(path, 'utf-8'));
+    if (state.version !== RATE_LIMIT_VERSION) state = freshState();
+  } catch {
+    state = freshState();
+  }
+
+  return { repo, path, state, log };
+}
+
+function saveRateLimiter(limiter: RateLimiter): void {
+  mkdirSync(join(limiter.path, '..'), { recursive: true });
+  const tmpPath = `${limiter.path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(limiter.state, null, 2));
+  renameSync(tmpPath, limiter.path);
+}
+
+/**
+ * Start a new window once the old one has passed
+ */
+function rollWindow(state: RateLimitState): void {
+  if (Date.now() >= state.resetAt) {
+    Object.assign(state, freshState(state.limit, state.windowMs));
+  }
+}
+
+/**
+ * Hold every caller of the limiter until a given time. Concurrent writers
+ * join the pause already under way rather than each starting their own;
+ * a later deadline, e.g. from another 429, extends it for all of them.
+ */
+function pauseUntil(limiter: RateLimiter, until: number, message: (waitMs: number) => string): Promise<void> {
+  const end = Math.max(until, Date.now() + 1000);
+  if (limiter.pause && limiter.pauseEnd !== undefined && end <= limiter.pauseEnd) return limiter.pause;
+
+  limiter.log?.(message(end - Date.now()));
+  limiter.pauseEnd = end;
+  if (!limiter.pause) {
+    limiter.pause = (async () => {
+      while (limiter.pauseEnd !== undefined && Date.now() < limiter.pauseEnd) {
+        await sleep(limiter.pauseEnd - Date.now());
+      }
+      limiter.pause = undefined;
+      limiter.pauseEnd = undefined;
+    })();
+  }
+  return limiter.pause;
+}
+
+/**
+ * Update the budget from the rate limit headers of a PDS response, e.g.
+ * `ratelimit-limit: 5000`, `ratelimit-remaining: 4212`,
+ * `ratelimit-reset: 1717000000`, `ratelimit-policy: 5000;w=3600`
+ */
+export function observeHeaders(limiter: RateLimiter, headers: { [name: string]: string | undefined } | undefined): void {
+  if (!headers) return;
+
+  const remaining = parseInt(headers['ratelimit-remaining'] ?? '', 10);
+  const reset = parseInt(headers['ratelimit-reset'] ?? '', 10);
+  if (isNaN(remaining) || isNaN(reset)) return;
+
+  const state = limiter.state;
+  const policy = /^\s*(\d+)\s*;\s*w=(\d+)/.exec(headers['ratelimit-policy'] ?? '');
+  const limit = parseInt(headers['ratelimit-limit'] ?? '', 10);
+
+  if (policy) {
+    state.limit = parseInt(policy[1], 10);
+    state.windowMs = parseInt(policy[2], 10) * 1000;
+  } else if (!isNaN(limit)) {
+    state.limit = limit;
+  }
+  state.remaining = remaining;
+  state.resetAt = reset * 1000;
+  saveRateLimiter(limiter);
+}
+
+/**
+ * Wait until the budget has room for a number of writes, then set their
+ * points aside
+ * @param operation - Kind of write, which decides the points per record
+ * @param count - Number of records written in the call
+ * @throws If the writes cost more than a whole window allows, so that
+ *   batching callers split them instead of waiting forever
+ */
+export async function reserve(limiter: RateLimiter, operation: WriteOperation, count = 1): Promise<void> {
+  const state = limiter.state;
+  const cost = WRITE_COSTS[operation] * count;
+
+  for (;;) {
+    if (limiter.pause) {
+      await limiter.pause;
+      continue;
+    }
+
+    rollWindow(state);
+    const floor = Math.floor(state.limit * SAFETY_MARGIN);
+    if (cost > state.limit - floor) {
+      throw new Error(
+        `${count} ${operation}s cost ${cost} points, more than the ${state.limit - floor} a rate limit window allows`
+      );
+    }
+    if (state.remaining - cost >= floor) break;
+
+    // Add 1s buffer past the reset
+    await pauseUntil(
+      limiter,
+      state.resetAt + 1000,
+      (waitMs) =>
+        `Rate limit approaching (${state.remaining} of ${state.limit} points left). Waiting ${Math.ceil(waitMs / 60000)} minutes for the window to reset...`
+    );
+  }
+
+  state.remaining -= cost;
+  saveRateLimiter(limiter);
+}
+
+/**
+ * When a 429 says to try again: its `ratelimit-reset` if sent, otherwise
+ * after a backoff growing with the waits so far
+ */
+function rateLimitReset(err: any, waits: number): number {
+  const reset = parseInt(err.headers?.['ratelimit-reset'] ?? '', 10);
+  return !isNaN(reset) ? reset * 1000 : Date.now() + DEFAULT_RATE_LIMIT_WAIT_MS * Math.pow(2, waits);
+}
+
+/**
+ * Record a 429 and pause every writer: until `ratelimit-reset` when the
+ * server sends it, otherwise for a growing backoff
+ */
+function rateLimited(limiter: RateLimiter, err: any, waits: number): Promise<void> {
+  const state = limiter.state;
+  state.remaining = 0;
+  state.resetAt = rateLimitReset(err, waits);
+  saveRateLimiter(limiter);
+
+  return pauseUntil(limiter, state.resetAt, (waitMs) => `Rate limited. Waiting ${Math.ceil(waitMs / 1000)}s...`);
+}
+
+/**
+ * Make one write call within the budget, retrying on rate limiting and
+ * server errors. The points are set aside once; only a 429, which the
+ * server didn't charge, sets them aside again for the next window. Client
+ * errors are thrown straight away, since they won't succeed on retry; the
+ * caller decides what they mean.
+ * @param operation - Kind of write, which decides the points per record
+ * @param count - Number of records written in the call
+ * @param call - The XRPC call; its response headers update the budget
+ */
+export async function withRateLimit<T extends { headers: { [name: string]: string | undefined } }>(
+  limiter: RateLimiter,
+  operation: WriteOperation,
+  count: number,
+  call: () => Promise<T>
+): Promise<T> {
+  let lastError: Error | undefined;
+  let attempts = 0;
+  let waits = 0;
+  let reserved = false;
+
+  while (attempts < MAX_RETRIES) {
+    if (!reserved) {
+      await reserve(limiter, operation, count);
+      reserved = true;
+    } else if (limiter.pause) {
+      await limiter.pause;
+    }
+
+    try {
+      const res = await call();
+      observeHeaders(limiter, res.headers);
+      return res;
+    } catch (err: any) {
+      lastError = err;
+      observeHeaders(limiter, err.headers);
+
+      // Over the limit: wait for the window instead of spending a retry
+      if (err.status === 429) {
+        if (waits >= MAX_RATE_LIMIT_WAITS) break;
+        reserved = false;
+        await rateLimited(limiter, err, waits++);
+        continue;
+      }
+
+      if (err.status >= 400 && err.status < 500) {
+        throw err;
+      }
+
+      // Server or network errors: exponential backoff
+      attempts++;
+      if (attempts < MAX_RETRIES) {
+        const delay = BASE_DELAY_MS * Math.pow(2, attempts - 1);
+        limiter.log?.(`Retrying in ${delay}ms after error: ${err.message}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw lastError || new Error(`${operation} failed after retries`);
+}
+
+/**
+ * Make one read call, retrying on rate limiting and server errors like
+ * `withRateLimit()`. A PDS limits reads separately, so they neither spend
+ * nor update the write budget.
+ * @param log - Called with a line when the call waits or retries
+ */
+export async function withRetries<T>(call: () => Promise<T>, log?: (message: string) => void): Promise<T> {
+  let lastError: Error | undefined;
+  let attempts = 0;
+  let waits = 0;
+
+  while (attempts < MAX_RETRIES) {
+    try {
+      return await call();
+    } catch (err: any) {
+      lastError = err;
+
+      if (err.status === 429) {
+        if (waits >= MAX_RATE_LIMIT_WAITS) break;
+        const waitMs = Math.max(rateLimitReset(err, waits++) - Date.now(), 1000);
+        log?.(`Rate limited. Waiting ${Math.ceil(waitMs / 1000)}s...`);
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (err.status >= 400 && err.status < 500) {
+        throw err;
+      }
+
+      attempts++;
+      if (attempts < MAX_RETRIES) {
+        const delay = BASE_DELAY_MS * Math.pow(2, attempts - 1);
+        log?.(`Retrying in ${delay}ms after error: ${err.message}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw lastError || new Error('Read failed after retries');
+}
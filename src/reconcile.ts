@@ -0,0 +1,142 @@
+import { AtpAgent } from '@atproto/api';
+import { mkdirSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { deleteRecords } from './deleter.js';
+import type { RateLimiter } from './ratelimit.js';
+import type { RecordRef } from './records.js';
+import { checkTargets } from './targets.js';
+
+const REPORT_DIR = 'reports';
+const REPORT_VERSION = 1;
+
+// Delete passes over records still there after the run
+const VERIFY_RETRIES = 2;
+
+/** The kind of run a report is for */
+export type RunOperation = 'delete' | 'edit' | 'restore';
+
+/**
+ * What became of one planned record:
+ * - `done`: the write was made (for deletions, the record was deleted)
+ * - `already-done`: nothing to write (for deletions, the record was already missing)
+ * - `failed`: the write failed and the record wasn't checked afterwards
+ * - `not-done`: checked after the run and the write didn't take
+ *   (for deletions, the record is still present)
+ */
+export type RecordOutcome = 'done' | 'already-done' | 'failed' | 'not-done';
+
+export interface ReportRecord {
+  rkey: string;
+  uri: string;
+  outcome: RecordOutcome;
+  /** Writes sent for the record, counting retries after verification */
+  attempts: number;
+  error?: string;
+}
+
+export interface RunReport {
+  version: number;
+  operation: RunOperation;
+  repo: string;
+  /** How the records were selected */
+  description: string;
+  startedAt: string;
+  finishedAt: string;
+  /** Whether outcomes were checked against the PDS after the run */
+  verified: boolean;
+  journal?: string;
+  plan?: string;
+  counts: { planned: number } & { [O in RecordOutcome]: number };
+  /** Every planned record, in plan order */
+  records: ReportRecord[];
+}
+
+/**
+ * Tally report records by outcome
+ */
+export function countOutcomes(records: ReportRecord[]): RunReport['counts'] {
+  const counts = { planned: records.length, done: 0, 'already-done': 0, failed: 0, 'not-done': 0 };
+  for (const record of records) counts[record.outcome]++;
+  return counts;
+}
+
+/**
+ * Write a run report, filling in its counts
+ * @param dir - Directory to write the report into
+ * @returns Path of the report
+ */
+export function writeReport(report: Omit<RunReport, 'version' | 'counts'>, dir = REPORT_DIR): string {
+  const { records, ...run } = report;
+  const full: RunReport = { version: REPORT_VERSION, ...run, counts: countOutcomes(records), records };
+
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${report.operation}-${report.startedAt.replace(/[:.]/g, '-')}.json`);
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(full, null, 2));
+  renameSync(tmpPath, path);
+  return path;
+}
+
+/**
+ * Check that deleted (and failed) records are gone, deleting any still
+ * there again up to twice. Updates the records' outcomes in place: gone
+ * ones become `done`, ones left after the retries `not-done`.
+ * @param records - Outcomes of the run; `already-done` ones aren't checked
+ * @param limiter - Write budget for the retries; its `log` also gets the
+ *   lookups' waits and retries
+ * @param concurrency - Delete batches to send at once when retrying
+ * @param log - Called with a line per verification pass
+ * @throws If the PDS can't be read after retries; outcomes checked so far are kept
+ */
+export async function verifyDeletions(
+  agent: AtpAgent,
+  repo: string,
+  records: ReportRecord[],
+  limiter?: RateLimiter,
+  concurrency?: number,
+  log: (message: string) => void = () => {}
+): Promise<void> {
+  let toCheck = records.filter((r) => r.outcome !== 'already-done');
+
+  for (let pass = 0; toCheck.length > 0; pass++) {
+    const { found } = await checkTargets(
+      agent,
+      repo,
+      toCheck.map((r) => r.rkey),
+      undefined,
+      limiter?.log
+    );
+    const present = new Set(found.map((r) => r.rkey));
+
+    for (const record of toCheck) {
+      if (present.has(record.rkey)) {
+        record.outcome = 'not-done';
+        record.error ??= 'Still present after deletion';
+      } else {
+        // Gone, even if the delete call itself failed
+        record.outcome = 'done';
+        record.error = undefined;
+      }
+    }
+
+    const stragglers = toCheck.filter((r) => present.has(r.rkey));
+    log(`Verification pass ${pass + 1}: ${toCheck.length - stragglers.length} gone, ${stragglers.length} still present`);
+    if (stragglers.length === 0 || pass === VERIFY_RETRIES) return;
+
+    // Deleting goes by rkey alone
+    const refs: RecordRef[] = stragglers.map((r) => ({ rkey: r.rkey, uri: r.uri, createdAt: new Date(0) }));
+    await deleteRecords(
+      agent,
+      repo,
+      refs,
+      (progress) => {
+        const record = stragglers[progress.current - 1];
+        record.attempts++;
+        if (progress.error !== undefined) record.error = progress.error;
+      },
+      limiter,
+      concurrency
+    );
+    toCheck = stragglers;
+  }
+}
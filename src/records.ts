@@ -1,87 +1,354 @@
 import { AtpAgent } from '@atproto/api';
-import { tidInRange, tidToDate } from './tid.js';
+import type { PlayRecord } from './play.js';
+import { withRetries } from './ratelimit.js';
+import { dateToTid, tidToDate } from './tid.js';
 
-const COLLECTION = 'fm.teal.alpha.feed.play';
+export const COLLECTION = 'fm.teal.alpha.feed.play';
 const PAGE_SIZE = 100;
 
 export interface RecordRef {
   rkey: string;
   uri: string;
   createdAt: Date;
+  value?: PlayRecord;
 }
 
 /**
- * Generator that yields all records from a collection, paginated
+ * Which time a record is filtered by: its rkey's creation time, or the
+ * `playedTime` in its value (when the listen happened)
+ */
+export type TimeSource = 'tid' | 'playedTime';
+
+export const TIME_SOURCES: readonly TimeSource[] = ['tid', 'playedTime'];
+
+/**
+ * Get a record's time from the given source
+ * @throws If the rkey is not a valid TID or playedTime is missing/unparseable
+ */
+export function recordTime(record: { rkey: string; value?: PlayRecord }, source: TimeSource): Date {
+  if (source === 'tid') {
+    return tidToDate(record.rkey);
+  }
+
+  const playedTime = record.value?.playedTime;
+  if (typeof playedTime !== 'string' || isNaN(Date.parse(playedTime))) {
+    throw new Error(`Missing or invalid playedTime: ${playedTime}`);
+  }
+  return new Date(playedTime);
+}
+
+export interface ListedRecord {
+  uri: string;
+  rkey: string;
+  /** CID of the version listed, for writes that must not overwrite a newer one */
+  cid?: string;
+  value: PlayRecord;
+}
+
+export interface ListOptions {
+  /** rkey to continue after (exclusive), in the direction being paged */
+  cursor?: string;
+  /** Page oldest-first instead of the server default of newest-first */
+  reverse?: boolean;
+  /** Stop after this many records */
+  limit?: number;
+}
+
+/**
+ * Somewhere records can be listed from: the PDS itself, or a local copy.
+ * Every source yields records in rkey order, newest first unless `reverse`
+ * is set, with the same cursor semantics as listRecords.
+ */
+export interface RecordSource {
+  list(options?: ListOptions): AsyncGenerator<ListedRecord>;
+}
+
+/**
+ * Generator that yields all records from a collection, paginated.
+ * Records come back in rkey order, newest first unless `reverse` is set.
+ * Pages are retried on rate limiting and server errors.
+ * @param log - Called with a line when a page waits or retries
  */
 export async function* listAllRecords(
   agent: AtpAgent,
-  repo: string
-): AsyncGenerator<{ uri: string; rkey: string; value: any }> {
-  let cursor: string | undefined;
-
-  while (true) {
-    const response = await agent.com.atproto.repo.listRecords({
-      repo,
-      collection: COLLECTION,
-      limit: PAGE_SIZE,
-      cursor,
-    });
+  repo: string,
+  options: ListOptions = {},
+  log?: (message: string) => void
+): AsyncGenerator<ListedRecord> {
+  let cursor = options.cursor;
+  let remaining = options.limit ?? Infinity;
+
+  while (remaining > 0) {
+    const limit = Math.min(PAGE_SIZE, remaining);
+    const response = await withRetries(
+      () =>
+        agent.com.atproto.repo.listRecords({
+          repo,
+          collection: COLLECTION,
+          limit,
+          cursor,
+          reverse: options.reverse,
+        }),
+      log
+    );
 
     for (const record of response.data.records) {
       // Extract rkey from URI: at://did:plc:xxx/collection/rkey
       const rkey = record.uri.split('/').pop()!;
-      yield { uri: record.uri, rkey, value: record.value };
+      // Typed, not checked: the PDS stores whatever a client wrote
+      yield { uri: record.uri, rkey, cid: record.cid, value: record.value as PlayRecord };
     }
 
+    remaining -= response.data.records.length;
     cursor = response.data.cursor;
-    if (!cursor || response.data.records.length < PAGE_SIZE) {
+    if (!cursor || response.data.records.length < limit) {
       break;
     }
   }
 }
 
 /**
- * Get all records within a time range
- * @param agent - Authenticated ATP agent
- * @param repo - DID or handle of the repo
- * @param start - Start of time range (inclusive)
- * @param end - End of time range (inclusive)
- * @param onProgress - Optional callback for progress updates
+ * Fetch one record by rkey with getRecord, retrying on rate limiting and
+ * server errors
+ * @param log - Called with a line when the lookup waits or retries
+ * @returns The record, or undefined if the repo has no record under that rkey
  */
-export async function getRecordsInRange(
+export async function getPlayRecord(
   agent: AtpAgent,
   repo: string,
+  rkey: string,
+  log?: (message: string) => void
+): Promise<ListedRecord | undefined> {
+  try {
+    const response = await withRetries(() => agent.com.atproto.repo.getRecord({ repo, collection: COLLECTION, rkey }), log);
+    return { uri: response.data.uri, rkey, cid: response.data.cid, value: response.data.value as PlayRecord };
+  } catch (err: any) {
+    if (err.error === 'RecordNotFound') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Record source that pages through the PDS with listRecords
+ * @param log - Called with a line when a page waits or retries
+ */
+export function pdsSource(agent: AtpAgent, repo: string, log?: (message: string) => void): RecordSource {
+  return { list: (options) => listAllRecords(agent, repo, options, log) };
+}
+
+/**
+ * Index of the first record whose rkey is greater than `rkey`
+ */
+function upperBound(records: ListedRecord[], rkey: string): number {
+  let lo = 0;
+  let hi = records.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (records[mid].rkey <= rkey) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Record source over records already in memory, with the same ordering and
+ * cursor semantics as listRecords
+ * @param records - Records sorted by rkey, oldest first
+ */
+export function memorySource(records: ListedRecord[]): RecordSource {
+  return {
+    async *list(options: ListOptions = {}) {
+      const { cursor, reverse, limit = Infinity } = options;
+      let yielded = 0;
+
+      if (reverse) {
+        const from = cursor === undefined ? 0 : upperBound(records, cursor);
+        for (let i = from; i < records.length && yielded < limit; i++, yielded++) {
+          yield records[i];
+        }
+      } else {
+        // Everything strictly below the cursor, newest first
+        let from = records.length - 1;
+        if (cursor !== undefined) {
+          from = upperBound(records, cursor) - 1;
+          if (from >= 0 && records[from].rkey === cursor) from--;
+        }
+        for (let i = from; i >= 0 && yielded < limit; i--, yielded++) {
+          yield records[i];
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Fetch the timestamp of the newest or oldest record, if any
+ */
+async function edgeTimestamp(source: RecordSource, reverse: boolean): Promise<Date | undefined> {
+  for await (const record of source.list({ reverse, limit: 1 })) {
+    try {
+      return tidToDate(record.rkey);
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Generator that yields only the records whose time falls within a range.
+ *
+ * For TID time, since rkeys are TIDs and listRecords returns them in rkey
+ * order, paging starts at the boundary TID nearest the range and stops as
+ * soon as it passes the far end, so the cost is proportional to the range
+ * rather than the whole collection. playedTime has no relation to rkey
+ * order, so filtering by it scans the whole collection.
+ * Records without a usable time are skipped.
+ * @param onScanned - Optional callback with the number of records read so far
+ * @param timeSource - Which time to filter by
+ * @param onWarning - Called with a line about records skipped
+ */
+export async function* listRecordsInRange(
+  source: RecordSource,
   start: Date,
   end: Date,
-  onProgress?: (scanned: number, matched: number) => void
-): Promise<RecordRef[]> {
-  const matches: RecordRef[] = [];
+  onScanned?: (scanned: number) => void,
+  timeSource: TimeSource = 'tid',
+  onWarning: (message: string) => void = () => {}
+): AsyncGenerator<ListedRecord> {
+  if (timeSource === 'playedTime') {
+    yield* scanByPlayedTime(source, start, end, onScanned, onWarning);
+    return;
+  }
+
+  // Page from whichever end of the collection is closer to the range
+  const [newest, oldest] = await Promise.all([
+    edgeTimestamp(source, false),
+    edgeTimestamp(source, true),
+  ]);
+  if (!newest || !oldest) return;
+
+  const reverse = start.getTime() - oldest.getTime() < newest.getTime() - end.getTime();
+
+  // Cursors are exclusive. Starting one millisecond outside the range keeps
+  // every TID in the boundary millisecond, whatever its microseconds/clock ID.
+  const cursor = reverse
+    ? dateToTid(new Date(Math.max(start.getTime() - 1, 0)), 1023, 999)
+    : dateToTid(new Date(end.getTime() + 1));
+
   let scanned = 0;
 
-  for await (const record of listAllRecords(agent, repo)) {
+  for await (const record of source.list({ cursor, reverse })) {
     scanned++;
+    if (onScanned && scanned % 100 === 0) {
+      onScanned(scanned);
+    }
 
+    let date: Date;
     try {
-      if (tidInRange(record.rkey, start, end)) {
-        matches.push({
-          rkey: record.rkey,
-          uri: record.uri,
-          createdAt: tidToDate(record.rkey),
-        });
-      }
-    } catch (err) {
-      // Skip records with invalid TIDs (shouldn't happen but be defensive)
-      console.warn(`Skipping record with invalid TID: ${record.rkey}`);
+      date = tidToDate(record.rkey);
+    } catch {
+      onWarning(`Skipping record with invalid TID: ${record.rkey}`);
+      continue;
+    }
+
+    // Past the far end of the range: nothing further can match
+    if (reverse ? date > end : date < start) {
+      break;
+    }
+
+    if (date >= start && date <= end) {
+      yield record;
+    }
+  }
+
+  if (onScanned) {
+    onScanned(scanned);
+  }
+}
+
+/**
+ * Full scan yielding records whose playedTime falls within a time range
+ */
+async function* scanByPlayedTime(
+  source: RecordSource,
+  start: Date,
+  end: Date,
+  onScanned: ((scanned: number) => void) | undefined,
+  onWarning: (message: string) => void
+): AsyncGenerator<ListedRecord> {
+  let scanned = 0;
+  let skipped = 0;
+
+  for await (const record of source.list()) {
+    scanned++;
+    if (onScanned && scanned % 100 === 0) {
+      onScanned(scanned);
+    }
+
+    let date: Date;
+    try {
+      date = recordTime(record, 'playedTime');
+    } catch {
+      skipped++;
+      continue;
     }
 
-    if (onProgress && scanned % 100 === 0) {
-      onProgress(scanned, matches.length);
+    if (date >= start && date <= end) {
+      yield record;
     }
   }
 
-  // Final progress update
-  if (onProgress) {
-    onProgress(scanned, matches.length);
+  if (onScanned) {
+    onScanned(scanned);
+  }
+  if (skipped > 0) {
+    onWarning(`Skipped ${skipped} records without a valid playedTime`);
+  }
+}
+
+/**
+ * Get all records within a time range
+ * @param source - Where to list records from
+ * @param start - Start of time range (inclusive)
+ * @param end - End of time range (inclusive)
+ * @param onProgress - Optional callback for progress updates
+ * @param timeSource - Which time to filter by
+ * @param onWarning - Called with a line about records skipped
+ */
+export async function getRecordsInRange(
+  source: RecordSource,
+  start: Date,
+  end: Date,
+  onProgress?: (scanned: number, matched: number) => void,
+  timeSource: TimeSource = 'tid',
+  onWarning: (message: string) => void = () => {}
+): Promise<RecordRef[]> {
+  const matches: RecordRef[] = [];
+
+  const records = listRecordsInRange(
+    source,
+    start,
+    end,
+    (scanned) => {
+      if (onProgress) onProgress(scanned, matches.length);
+    },
+    timeSource,
+    onWarning
+  );
+
+  for await (const record of records) {
+    try {
+      matches.push({
+        rkey: record.rkey,
+        uri: record.uri,
+        createdAt: tidToDate(record.rkey),
+        value: record.value,
+      });
+    } catch {
+      // Only reachable when filtering by playedTime
+      onWarning(`Skipping record with invalid TID: ${record.rkey}`);
+    }
   }
 
   // Sort by creation time (oldest first)
@@ -93,9 +360,9 @@ export async function getRecordsInRange(
 /**
  * Count total records in the collection
  */
-export async function countRecords(agent: AtpAgent, repo: string): Promise<number> {
+export async function countRecords(source: RecordSource): Promise<number> {
   let count = 0;
-  for await (const _ of listAllRecords(agent, repo)) {
+  for await (const _ of source.list()) {
     count++;
   }
   return count;
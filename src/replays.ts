@@ -0,0 +1,151 @@
+import { trackKey } from './duplicates.js';
+import type { RecordRef } from './records.js';
+
+// Distinct candidate stretches to score per block, most recent first
+const MAX_CANDIDATES = 250;
+
+// How many of a block's leading tracks can anchor a candidate start
+const ANCHOR_TRACKS = 3;
+
+/** Listening history keyed by track, to match any number of blocks against */
+export interface HistoryIndex {
+  /** Records, oldest first */
+  records: RecordRef[];
+  /** `trackKey` of each record */
+  keys: string[];
+  /** Positions of each track in `records`, ascending */
+  positions: Map<string, number[]>;
+}
+
+export interface ReplayMatch {
+  /** Earlier stretch of history the block's track order copies */
+  source: RecordRef[];
+  /** Number of block records matched, in order, against the source */
+  matched: number;
+  /** matched / block length */
+  ratio: number;
+}
+
+/**
+ * Index records by track once, for `findReplaySource`
+ * @param records - Listening history, oldest first
+ */
+export function indexHistory(records: RecordRef[]): HistoryIndex {
+  const keys = records.map((r) => trackKey(r.value));
+  const positions = new Map<string, number[]>();
+  keys.forEach((key, i) => {
+    const list = positions.get(key);
+    if (list) list.push(i);
+    else positions.set(key, [i]);
+  });
+  return { records, keys, positions };
+}
+
+/**
+ * How many block tracks a window holds regardless of order: an upper
+ * bound on their longest common subsequence
+ */
+function sharedTracks(blockCounts: Map<string, number>, window: string[]): number {
+  const seen = new Map<string, number>();
+  let shared = 0;
+  for (const key of window) {
+    const count = seen.get(key) ?? 0;
+    if (count < (blockCounts.get(key) ?? 0)) shared++;
+    seen.set(key, count + 1);
+  }
+  return shared;
+}
+
+/**
+ * Length of the longest common subsequence of two key sequences, and the
+ * index in `b` of the last element that took part in it
+ * @param floor - Give up, returning undefined, once the length can't exceed this
+ */
+function longestCommonSubsequence(
+  a: string[],
+  b: string[],
+  floor: number
+): { length: number; lastIndex: number } | undefined {
+  let prev = new Array<number>(b.length + 1).fill(0);
+  let curr = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = a[i - 1] === b[j - 1]
+        ? prev[j - 1] + 1
+        : Math.max(prev[j], curr[j - 1]);
+    }
+    [prev, curr] = [curr, prev];
+    // Each remaining element of a adds at most one
+    if (prev[b.length] + a.length - i <= floor) return undefined;
+  }
+
+  // The LCS length first reaches its final value at the last used element of b
+  const length = prev[b.length];
+  let lastIndex = b.length - 1;
+  while (lastIndex > 0 && prev[lastIndex] === length) {
+    lastIndex--;
+  }
+
+  return { length, lastIndex };
+}
+
+/**
+ * Find the earlier stretch of listening history whose track order a block
+ * repeats. Candidate stretches start wherever one of the block's first few
+ * tracks was played before, span up to twice the block's length, and are
+ * scored by how many of the block's tracks they contain in the same order.
+ * Identical stretches are scored once, and ones that can't beat the best
+ * so far are skipped or abandoned.
+ * @param history - Indexed listening history
+ * @param block - Suspicious block of records, oldest first
+ * @param end - Position in the history of the block's first record; only
+ *   earlier records are searched
+ * @returns The best-matching stretch, or undefined if no track recurs
+ */
+export function findReplaySource(
+  history: HistoryIndex,
+  block: RecordRef[],
+  end = history.records.length
+): ReplayMatch | undefined {
+  if (end <= 0 || block.length === 0) return undefined;
+
+  const blockKeys = block.map((r) => trackKey(r.value));
+  const blockCounts = new Map<string, number>();
+  for (const key of blockKeys) blockCounts.set(key, (blockCounts.get(key) ?? 0) + 1);
+
+  // Earlier plays of the leading tracks, most recent first
+  const starts = new Set<number>();
+  for (const key of new Set(blockKeys.slice(0, ANCHOR_TRACKS))) {
+    for (const position of history.positions.get(key) ?? []) {
+      if (position < end) starts.add(position);
+    }
+  }
+  const candidates = [...starts].sort((a, b) => b - a);
+
+  let best: ReplayMatch | undefined;
+  const scored = new Set<string>();
+
+  for (const start of candidates) {
+    if (scored.size >= MAX_CANDIDATES) break;
+
+    const window = history.keys.slice(start, Math.min(end, start + block.length * 2));
+    const id = window.join('\u0001');
+    if (scored.has(id)) continue;
+    scored.add(id);
+
+    const floor = best?.matched ?? 0;
+    if (sharedTracks(blockCounts, window) <= floor) continue;
+    const lcs = longestCommonSubsequence(blockKeys, window, floor);
+    if (!lcs) continue;
+
+    best = {
+      source: history.records.slice(start, start + lcs.lastIndex + 1),
+      matched: lcs.length,
+      ratio: lcs.length / block.length,
+    };
+    if (lcs.length === block.length) break;
+  }
+
+  return best;
+}
@@ -0,0 +1,225 @@
+import { WEEKDAYS, type CountChange, type RankedItem, type Stats, type StatsComparison, type YearSummary } from './statistics.js';
+
+// Characters for heatmap cells, from no plays to the busiest hour
+const SHADES = [' ', '░', '▒', '▓', '█'];
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours.toLocaleString()}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatChange(change: CountChange): string {
+  const delta = change.after - change.before;
+  return `${change.before.toLocaleString()} → ${change.after.toLocaleString()} (${delta > 0 ? '+' : ''}${delta.toLocaleString()})`;
+}
+
+function rankedLabel(item: RankedItem): string {
+  return item.artist ? `${item.name} — ${item.artist}` : item.name;
+}
+
+function rankedLines(items: RankedItem[]): string[] {
+  const width = String(items[0]?.plays.toLocaleString() ?? '').length;
+  return items.map((item, i) =>
+    `  ${String(i + 1).padStart(2)}. ${item.plays.toLocaleString().padStart(width)}  ${rankedLabel(item)}`
+  );
+}
+
+/**
+ * Horizontal bar chart of the last `limit` entries of a count map
+ */
+function barLines(counts: { [key: string]: number }, limit: number): string[] {
+  const entries = Object.entries(counts).slice(-limit);
+  const max = Math.max(1, ...entries.map(([, n]) => n));
+  const keyWidth = Math.max(0, ...entries.map(([key]) => key.length));
+  const countWidth = Math.max(0, ...entries.map(([, n]) => n.toLocaleString().length));
+  return entries.map(
+    ([key, n]) => `  ${key.padEnd(keyWidth)} ${n.toLocaleString().padStart(countWidth)} ${'█'.repeat(Math.ceil((n / max) * 40))}`
+  );
+}
+
+function heatmapLines(heatmap: number[][]): string[] {
+  const max = Math.max(1, ...heatmap.flat());
+  // One character per hour, labelled every six hours
+  const lines = ['      ' + [0, 6, 12, 18].map((h) => String(h).padEnd(6)).join('')];
+  heatmap.forEach((hours, day) => {
+    const cells = hours.map((n) => (n === 0 ? SHADES[0] : SHADES[Math.ceil((n / max) * (SHADES.length - 1))]));
+    lines.push(`  ${WEEKDAYS[day]} ${cells.join('')}`);
+  });
+  return lines;
+}
+
+function section(title: string): string[] {
+  return ['', title, '-'.repeat(50)];
+}
+
+function yearLines(year: YearSummary): string[] {
+  const lines = [
+    `  Plays: ${year.plays.toLocaleString()} (${formatDuration(year.durationSec)} with known duration)`,
+    `  Artists: ${year.artists.toLocaleString()}, Tracks: ${year.tracks.toLocaleString()}`,
+  ];
+  if (year.busiestMonth) lines.push(`  Busiest month: ${year.busiestMonth.month} (${year.busiestMonth.plays.toLocaleString()} plays)`);
+  if (year.busiestDay) lines.push(`  Busiest day: ${year.busiestDay.day} (${year.busiestDay.plays.toLocaleString()} plays)`);
+  if (year.longestStreak) {
+    lines.push(`  Longest streak: ${year.longestStreak.days} days (${year.longestStreak.start} to ${year.longestStreak.end})`);
+  }
+  lines.push('  Top artists:', ...rankedLines(year.topArtists).map((l) => `  ${l}`));
+  lines.push('  Top tracks:', ...rankedLines(year.topTracks).map((l) => `  ${l}`));
+  return lines;
+}
+
+/**
+ * Render stats as plain text for the terminal
+ * @param year - Year to show the year in review for; defaults to the latest
+ */
+export function formatStatsTable(stats: Stats, year?: number): string {
+  const lines: string[] = [];
+
+  lines.push(...section('Overview'));
+  lines.push(`  Plays: ${stats.total.toLocaleString()}`);
+  lines.push(`  Listening time: ${formatDuration(stats.durationSec)} (plays with a duration)`);
+  if (stats.first && stats.last) lines.push(`  From ${stats.first} to ${stats.last}`);
+  lines.push(`  Days with plays: ${Object.keys(stats.perDay).length.toLocaleString()}`);
+  if (stats.streaks.longest) {
+    const { days, start, end } = stats.streaks.longest;
+    lines.push(`  Longest streak: ${days} days (${start} to ${end})`);
+  }
+  lines.push(`  Current streak: ${stats.streaks.current ? `${stats.streaks.current.days} days` : 'none'}`);
+  if (stats.skipped > 0) lines.push(`  Skipped (no usable ${stats.timeSource}): ${stats.skipped.toLocaleString()}`);
+
+  lines.push(...section('Top artists'), ...rankedLines(stats.topArtists));
+  lines.push(...section('Top albums'), ...rankedLines(stats.topAlbums));
+  lines.push(...section('Top tracks'), ...rankedLines(stats.topTracks));
+
+  lines.push(...section('Plays per month (last 24)'), ...barLines(stats.perMonth, 24));
+  lines.push(...section('Plays per week (last 12)'), ...barLines(stats.perWeek, 12));
+  lines.push(...section('Plays per day (last 14)'), ...barLines(stats.perDay, 14));
+  lines.push(...section(`Hour of day × weekday (${stats.timezone})`), ...heatmapLines(stats.heatmap));
+
+  lines.push(...section('Music services'));
+  for (const [domain, plays] of Object.entries(stats.services)) {
+    lines.push(`  ${plays.toLocaleString().padStart(8)}  ${domain}`);
+  }
+
+  const review = year === undefined ? stats.years[stats.years.length - 1] : stats.years.find((y) => y.year === year);
+  if (review) {
+    lines.push(...section(`${review.year} in review`), ...yearLines(review));
+  } else if (year !== undefined) {
+    lines.push(...section(`${year} in review`), '  No plays this year.');
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function rankedTable(title: string, items: RankedItem[]): string {
+  const rows = items
+    .map((item, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(rankedLabel(item))}</td><td class="n">${item.plays}</td></tr>`)
+    .join('\n');
+  return `<section><h2>${title}</h2><table>${rows}</table></section>`;
+}
+
+function barTable(title: string, counts: { [key: string]: number }): string {
+  const max = Math.max(1, ...Object.values(counts));
+  const rows = Object.entries(counts)
+    .map(
+      ([key, n]) =>
+        `<tr><td>${escapeHtml(key)}</td><td class="n">${n}</td><td><div class="bar" style="width:${((n / max) * 100).toFixed(1)}%"></div></td></tr>`
+    )
+    .join('\n');
+  return `<section><h2>${title}</h2><table class="bars">${rows}</table></section>`;
+}
+
+/**
+ * Render stats as a standalone HTML page
+ * @param year - Year to show the year in review for; defaults to the latest
+ */
+export function formatStatsHtml(stats: Stats, year?: number): string {
+  const max = Math.max(1, ...stats.heatmap.flat());
+  const heatmapRows = stats.heatmap
+    .map(
+      (hours, day) =>
+        `<tr><th>${WEEKDAYS[day]}</th>${hours
+          .map((n) => `<td title="${n}" style="background:rgba(20,140,120,${(n / max).toFixed(2)})"></td>`)
+          .join('')}</tr>`
+    )
+    .join('\n');
+  const hourHeader = `<tr><th></th>${Array.from({ length: 24 }, (_, h) => `<th>${h}</th>`).join('')}</tr>`;
+
+  const review = year === undefined ? stats.years[stats.years.length - 1] : stats.years.find((y) => y.year === year);
+  const reviewHtml = review
+    ? `<section><h2>${review.year} in review</h2><pre>${escapeHtml(yearLines(review).join('\n'))}</pre></section>`
+    : '';
+
+  const services = Object.entries(stats.services)
+    .map(([domain, plays]) => `<tr><td>${escapeHtml(domain)}</td><td class="n">${plays}</td></tr>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Listening stats</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2em auto; color: #222; }
+table { border-collapse: collapse; }
+td, th { padding: 2px 8px; font-size: 14px; }
+td.n { text-align: right; font-variant-numeric: tabular-nums; }
+table.bars td:last-child { width: 60%; }
+.bar { background: #148c78; height: 10px; }
+table.heatmap td { width: 24px; height: 18px; border: 1px solid #eee; }
+</style>
+</head>
+<body>
+<h1>Listening stats</h1>
+<p>${stats.total.toLocaleString()} plays, ${formatDuration(stats.durationSec)} with a known duration${
+    stats.first && stats.last ? `, from ${stats.first} to ${stats.last}` : ''
+  }. Dates in ${escapeHtml(stats.timezone)}, by ${stats.timeSource}. Generated ${stats.generatedAt}.</p>
+<p>Longest streak: ${stats.streaks.longest ? `${stats.streaks.longest.days} days (${stats.streaks.longest.start} to ${stats.streaks.longest.end})` : 'none'}.
+Current streak: ${stats.streaks.current ? `${stats.streaks.current.days} days` : 'none'}.</p>
+${rankedTable('Top artists', stats.topArtists)}
+${rankedTable('Top albums', stats.topAlbums)}
+${rankedTable('Top tracks', stats.topTracks)}
+<section><h2>Hour of day × weekday</h2><table class="heatmap">${hourHeader}
+${heatmapRows}</table></section>
+${barTable('Plays per month', stats.perMonth)}
+${barTable('Plays per week', stats.perWeek)}
+<section><h2>Music services</h2><table>${services}</table></section>
+${reviewHtml}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a before/after comparison as plain text
+ * @param limit - How many changed days to list
+ */
+export function formatComparison(comparison: StatsComparison, limit = 31): string {
+  const lines: string[] = [];
+
+  lines.push(...section('Compared with saved stats'));
+  lines.push(`  Plays: ${formatChange(comparison.total)}`);
+
+  const changes = (title: string, list: CountChange[], max = Infinity) => {
+    lines.push(...section(title));
+    if (list.length === 0) {
+      lines.push('  (no changes)');
+      return;
+    }
+    for (const change of list.slice(0, max)) {
+      lines.push(`  ${change.key}: ${formatChange(change)}`);
+    }
+    if (list.length > max) lines.push(`  ... and ${list.length - max} more`);
+  };
+
+  changes('Changed months', comparison.perMonth);
+  changes('Changed days', comparison.perDay, limit);
+  changes('Changed music services', comparison.services);
+  changes('Changed top artists', comparison.artists);
+
+  return lines.join('\n') + '\n';
+}
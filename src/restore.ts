@@ -0,0 +1,183 @@
+import { updateCache } from './cache.js';
+import { DRY_RUN_OPTION, printNotice, usageError, type Command } from './command.js';
+import { confirm } from './deletion.js';
+import { filterJournal, readJournal, type Journal } from './journal.js';
+import { artistNames } from './play.js';
+import { loadRateLimiter } from './ratelimit.js';
+import { loadConfig, login } from './session.js';
+import { putRecords } from './writer.js';
+import { formatTid } from './tid.js';
+
+interface CliArgs {
+  journal: string;
+  rkeys?: string[];
+  start?: Date;
+  end?: Date;
+  dryRun: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  let journal: string | undefined;
+  let rkeys: string[] | undefined;
+  let start: Date | undefined;
+  let end: Date | undefined;
+  let dryRun = false;
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--journal=')) {
+      journal = arg.slice('--journal='.length);
+    } else if (arg.startsWith('--rkeys=')) {
+      rkeys = arg.slice('--rkeys='.length).split(',').map((r) => r.trim()).filter(Boolean);
+    } else if (arg.startsWith('--start=')) {
+      start = new Date(arg.slice(8));
+      if (isNaN(start.getTime())) {
+        console.error(`Invalid start date: ${arg.slice(8)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--end=')) {
+      end = new Date(arg.slice(6));
+      if (isNaN(end.getTime())) {
+        console.error(`Invalid end date: ${arg.slice(6)}`);
+        process.exit(1);
+      }
+    }
+  }
+
+  if (!journal) {
+    usageError(command);
+  }
+
+  if (start && end && start > end) {
+    console.error('Error: start date must be before end date');
+    process.exit(1);
+  }
+
+  return { journal, rkeys, start, end, dryRun };
+}
+
+async function run(args: string[]) {
+  const { journal: journalPath, rkeys, start, end, dryRun } = parseArgs(args);
+
+  let journal: Journal;
+  try {
+    journal = readJournal(journalPath);
+  } catch (err: any) {
+    console.error(`Could not read journal ${journalPath}: ${err.message}`);
+    process.exit(1);
+  }
+
+  const entries = filterJournal(journal, { rkeys, start, end });
+
+  const cfg = loadConfig();
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nRestore fm.teal.alpha.feed.play records`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}`);
+  console.log(`Journal: ${journalPath} (${journal.entries.length} records, written ${journal.writtenAt})`);
+  if (rkeys) console.log(`Rkeys: ${rkeys.length} selected`);
+  if (start || end) {
+    console.log(`Time range: ${start?.toISOString() ?? 'beginning'} to ${end?.toISOString() ?? 'end'}`);
+  }
+  console.log(`Mode: ${dryRun ? 'DRY RUN (no changes will be made)' : 'LIVE'}`);
+  console.log('');
+
+  if (entries.length === 0) {
+    console.log('No journal entries match the given filters.');
+    process.exit(0);
+  }
+
+  const { agent, repo } = await login(cfg);
+
+  if (journal.repo !== repo) {
+    console.error(`Error: journal was written for ${journal.repo}, but you are logged in as ${repo}`);
+    process.exit(1);
+  }
+
+  // Show preview
+  console.log(`Found ${entries.length} records to restore:`);
+  console.log('-'.repeat(50));
+
+  const previewCount = Math.min(entries.length, 10);
+  for (let i = 0; i < previewCount; i++) {
+    const v = entries[i].value;
+    console.log(`  ${formatTid(entries[i].rkey)} ${v?.trackName} — ${artistNames(v).join(', ')}`);
+  }
+  if (entries.length > previewCount) {
+    console.log(`  ... (${entries.length - previewCount} more)`);
+  }
+
+  console.log('-'.repeat(50));
+  console.log('');
+
+  if (dryRun) {
+    console.log('DRY RUN complete. No records were restored.');
+    console.log('Run without --dry-run to restore these records.');
+    process.exit(0);
+  }
+
+  const confirmed = await confirm(
+    `\nRestore ${entries.length} records? Existing records with the same rkey will be overwritten.`
+  );
+
+  if (!confirmed) {
+    console.log('Aborted.');
+    process.exit(0);
+  }
+
+  console.log('\nRestoring records...');
+  const startTime = Date.now();
+
+  const written = new Set<string>();
+  const result = await putRecords(agent, repo, entries, (progress) => {
+    if (progress.success) written.add(progress.rkey);
+    const percent = ((progress.current / progress.total) * 100).toFixed(1);
+    const status = progress.success ? 'Restored' : 'FAILED';
+    process.stdout.write(
+      `\r[${progress.current}/${progress.total}] (${percent}%) ${status}: ${progress.rkey}    `
+    );
+  }, 'create', loadRateLimiter(repo, undefined, printNotice));
+
+  // Keep the local cache, if any, in step with what was written
+  updateCache(repo, { written: entries.filter((w) => written.has(w.rkey)) });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log('\n');
+  console.log('='.repeat(50));
+  console.log(`Completed in ${duration}s`);
+  console.log(`  Restored: ${result.written}`);
+  console.log(`  Failed: ${result.failed}`);
+
+  if (result.errors.length > 0) {
+    console.log('\nErrors:');
+    for (const error of result.errors.slice(0, 10)) {
+      console.log(`  - ${error}`);
+    }
+    if (result.errors.length > 10) {
+      console.log(`  ... and ${result.errors.length - 10} more`);
+    }
+  }
+
+  process.exit(result.failed > 0 ? 1 : 0);
+}
+
+export const command: Command = {
+  name: 'restore',
+  summary: 'Re-create records from a backup journal',
+  usage: ['--journal=<path> [--rkeys=<a,b,...>] [--start=<ISO8601>] [--end=<ISO8601>] [--dry-run]'],
+  options: [
+    { name: '--journal', value: 'path', description: 'Journal written by a delete, edit or fix' },
+    { name: '--rkeys', value: 'a,b,...', description: 'Only restore these rkeys' },
+    { name: '--start', value: 'ISO8601', description: 'Only restore records created from this time on' },
+    { name: '--end', value: 'ISO8601', description: 'Only restore records created up to this time' },
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--journal=journals/delete-2024-03-16T10-00-00-000Z.json --dry-run',
+    '--journal=journals/delete-2024-03-16T10-00-00-000Z.json --start=2024-03-02 --end=2024-03-03',
+  ],
+  run,
+};
@@ -0,0 +1,262 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import type { TimedRecord } from './blocks.js';
+import { artistNames } from './play.js';
+import type { RecordRef } from './records.js';
+
+const REVIEW_DIR = 'reviews';
+const REVIEW_VERSION = 1;
+
+// Records shown either side of a block, to see where it starts and ends
+const CONTEXT_RECORDS = 3;
+
+/**
+ * What the reviewer chose for a block: keep all of it, delete all of it,
+ * or delete the records they picked
+ */
+export type BlockAction = 'keep' | 'delete' | 'pick';
+
+export interface BlockDecision {
+  action: BlockAction;
+  /** rkeys of the block to delete */
+  delete: string[];
+  decidedAt: string;
+}
+
+export interface Review {
+  version: number;
+  repo: string;
+  /** Decisions by block, keyed by `blockKey()` */
+  decisions: { [key: string]: BlockDecision };
+}
+
+export interface ReviewSession {
+  review: Review;
+  path: string;
+}
+
+/**
+ * Ask the reviewer a question and get their answer
+ */
+export type Ask = (question: string) => Promise<string>;
+
+/**
+ * Key identifying a block across runs: its first and last rkey and size,
+ * so a block that grows or shrinks under other thresholds is asked about again
+ */
+export function blockKey(block: RecordRef[]): string {
+  return `${block[0].rkey}..${block[block.length - 1].rkey}/${block.length}`;
+}
+
+/**
+ * Load the saved decisions for a repo, or start a new review
+ * @param repo - DID of the repo being reviewed
+ * @param dir - Directory the review files live in
+ */
+export function loadReview(repo: string, dir = REVIEW_DIR): ReviewSession {
+  const path = join(dir, `${repo.replace(/:/g, '_')}.json`);
+
+  let review: Review;
+  try {
+    review = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return { review: { version: REVIEW_VERSION, repo, decisions: {} }, path };
+  }
+
+  if (review.version !== REVIEW_VERSION) {
+    throw new Error(`Unsupported review version: ${review.version}`);
+  }
+  if (review.repo !== repo) {
+    throw new Error(`${path} is a review of ${review.repo}, not ${repo}`);
+  }
+  return { review, path };
+}
+
+/**
+ * Persist decisions, replacing the file atomically
+ */
+export function saveReview(session: ReviewSession): void {
+  mkdirSync(join(session.path, '..'), { recursive: true });
+  const tmpPath = `${session.path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(session.review, null, 2));
+  renameSync(tmpPath, session.path);
+}
+
+/**
+ * Parse a selection of record numbers like `1-3, 7`
+ * @param count - Number of records to choose from, numbered from 1
+ * @returns Zero-based indices, ascending and without repeats
+ * @throws If a number is out of range or the input isn't a selection
+ */
+export function parseSelection(input: string, count: number): number[] {
+  const selected = new Set<number>();
+
+  for (const part of input.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) throw new Error(`Not a record number or range: ${part}`);
+
+    const from = parseInt(match[1], 10);
+    const to = match[2] === undefined ? from : parseInt(match[2], 10);
+    if (from < 1 || to > count || from > to) {
+      throw new Error(`Out of range: ${part} (records are numbered 1 to ${count})`);
+    }
+    for (let i = from; i <= to; i++) selected.add(i - 1);
+  }
+
+  if (selected.size === 0) throw new Error('Nothing selected');
+  return [...selected].sort((a, b) => a - b);
+}
+
+/**
+ * Records the decisions select for deletion from the given blocks, and
+ * how many of the blocks are still undecided
+ */
+export function reviewTargets(review: Review, blocks: TimedRecord[][]): { targets: TimedRecord[]; undecided: number } {
+  const targets: TimedRecord[] = [];
+  let undecided = 0;
+
+  for (const block of blocks) {
+    const decision = review.decisions[blockKey(block)];
+    if (!decision) {
+      undecided++;
+      continue;
+    }
+    const rkeys = new Set(decision.delete);
+    targets.push(...block.filter((r) => rkeys.has(r.rkey)));
+  }
+
+  return { targets, undecided };
+}
+
+function describeRecord(record: TimedRecord): string {
+  const v = record.value;
+  const artists = artistNames(v).join(', ') || '(no artists)';
+  const release = v?.releaseName ? ` — ${v.releaseName}` : '';
+  return `${record.timestamp.toISOString()}  ${v?.trackName ?? '(no track name)'} — ${artists}${release} (played ${v?.playedTime ?? 'unknown'})`;
+}
+
+/**
+ * Print a block's records, numbered for picking, between the records
+ * just before and after it
+ */
+function showRecords(records: TimedRecord[], block: TimedRecord[], log: (message: string) => void): void {
+  const start = records.indexOf(block[0]);
+  const end = start + block.length;
+  const width = String(block.length).length;
+
+  for (const record of records.slice(Math.max(start - CONTEXT_RECORDS, 0), start)) {
+    log(`  ${' '.repeat(width)}   ${describeRecord(record)}`);
+  }
+  block.forEach((record, i) => log(`  ${String(i + 1).padStart(width)}.  ${describeRecord(record)}`));
+  for (const record of records.slice(end, end + CONTEXT_RECORDS)) {
+    log(`  ${' '.repeat(width)}   ${describeRecord(record)}`);
+  }
+  log('');
+}
+
+/**
+ * Ask which records of a block to delete
+ * @returns The decision, or undefined if the reviewer quit
+ */
+async function decideBlock(block: TimedRecord[], ask: Ask, log: (message: string) => void): Promise<BlockDecision | undefined> {
+  const decidedAt = () => new Date().toISOString();
+
+  for (;;) {
+    const answer = (await ask('[k]eep block, [d]elete block, [p]ick records to delete, [q]uit: ')).trim().toLowerCase();
+
+    switch (answer) {
+      case 'k':
+      case 'keep':
+        return { action: 'keep', delete: [], decidedAt: decidedAt() };
+      case 'd':
+      case 'delete':
+        return { action: 'delete', delete: block.map((r) => r.rkey), decidedAt: decidedAt() };
+      case 'p':
+      case 'pick': {
+        const input = await ask(`Records to delete (e.g. 1-3,7; 1 to ${block.length}): `);
+        try {
+          const picked = parseSelection(input, block.length);
+          return { action: 'pick', delete: picked.map((i) => block[i].rkey), decidedAt: decidedAt() };
+        } catch (err: any) {
+          log(err.message);
+        }
+        break;
+      }
+      case 'q':
+      case 'quit':
+        return undefined;
+      default:
+        log(`Unknown answer: ${answer}`);
+    }
+  }
+}
+
+/**
+ * Step through the blocks the saved review hasn't decided yet, saving
+ * each decision as it's made
+ * @param records - Every record in time order, for the context around blocks
+ * @param blocks - Blocks to review, in time order
+ * @param show - Prints a block's summary before its records
+ * @returns true once every block is decided, false if the reviewer quit
+ */
+export async function reviewBlocks(
+  records: TimedRecord[],
+  blocks: TimedRecord[][],
+  session: ReviewSession,
+  ask: Ask,
+  show: (block: TimedRecord[], index: number) => void,
+  log: (message: string) => void = console.log
+): Promise<boolean> {
+  const { decisions } = session.review;
+  const decided = blocks.filter((block) => decisions[blockKey(block)]).length;
+  if (decided > 0) {
+    log(`Resuming review: ${decided} of ${blocks.length} blocks already decided\n`);
+  }
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const key = blockKey(block);
+    if (decisions[key]) continue;
+
+    show(block, i);
+    showRecords(records, block, log);
+
+    const decision = await decideBlock(block, ask, log);
+    if (!decision) return false;
+
+    decisions[key] = decision;
+    saveReview(session);
+    log(`Block #${i + 1}: ${decision.delete.length} of ${block.length} records marked for deletion\n`);
+  }
+
+  return true;
+}
+
+/**
+ * Run a review with questions asked on the terminal
+ */
+export async function withTerminal<T>(review: (ask: Ask) => Promise<T>): Promise<T> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let closed = false;
+  let pending: ((answer: string) => void) | undefined;
+
+  // Ctrl-D (or the end of piped input) quits, keeping what was decided
+  rl.on('close', () => {
+    closed = true;
+    pending?.('q');
+  });
+
+  const ask: Ask = (question) =>
+    new Promise((resolve) => {
+      if (closed) return resolve('q');
+      pending = resolve;
+      rl.question(question, resolve);
+    });
+
+  try {
+    return await review(ask);
+  } finally {
+    rl.close();
+  }
+}
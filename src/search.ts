@@ -1,115 +1,159 @@
 import { AtpAgent } from '@atproto/api';
-import { config } from 'dotenv';
-import { listAllRecords } from './records.js';
-
-config();
+import { cacheSource, requireCache } from './cache.js';
+import { carSource } from './car.js';
+import {
+  CAR_OPTION,
+  DRY_RUN_OPTION,
+  isJsonOutput,
+  OFFLINE_OPTION,
+  printJson,
+  printNotice,
+  type Command,
+} from './command.js';
+import {
+  checkSnapshotTargets,
+  CONCURRENCY_OPTION,
+  parseConcurrency,
+  runDeletion,
+  VERIFY_OPTION,
+} from './deletion.js';
+import {
+  describeFilter,
+  FILTER_OPTIONS,
+  listFilterCandidates,
+  matchesFilter,
+  parseFilterArg,
+  printFilter,
+  validateFilter,
+  type PlayFilter,
+} from './filters.js';
+import { artistNames } from './play.js';
+import { pdsSource, type ListedRecord, type RecordRef, type RecordSource } from './records.js';
+import { connect, loadConfig, login } from './session.js';
+import { toTarget } from './targets.js';
 
 interface CliArgs {
-  artistName?: string;
-  albumName?: string;
-  trackName?: string;
+  filter: PlayFilter;
   count: boolean;
+  /** Delete the matches through the same flow as `teal delete` */
+  delete: boolean;
+  dryRun: boolean;
+  concurrency?: number;
+  verify: boolean;
+  offline: boolean;
+  car: boolean;
 }
 
-function parseArgs(): CliArgs {
-  const args = process.argv.slice(2);
-  let artistName: string | undefined;
-  let albumName: string | undefined;
-  let trackName: string | undefined;
+function parseArgs(args: string[]): CliArgs {
+  const filter: PlayFilter = { timeSource: 'tid' };
   let count = false;
+  let del = false;
+  let dryRun = false;
+  let concurrency: number | undefined;
+  let verify = false;
+  let offline = false;
+  let car = false;
 
   for (const arg of args) {
-    if (arg.startsWith('--artistName=')) {
-      artistName = arg.slice('--artistName='.length);
-    } else if (arg.startsWith('--albumName=')) {
-      albumName = arg.slice('--albumName='.length);
-    } else if (arg.startsWith('--trackName=')) {
-      trackName = arg.slice('--trackName='.length);
-    } else if (arg === '--count') {
+    if (arg === '--count') {
       count = true;
+    } else if (arg === '--delete') {
+      del = true;
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--concurrency=')) {
+      concurrency = parseConcurrency(arg);
+    } else if (arg === '--verify') {
+      verify = true;
+    } else if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else {
+      parseFilterArg(arg, filter);
     }
   }
 
-  if (!artistName && !albumName && !trackName) {
-    console.error('Error: Provide at least one filter: --artistName=, --albumName=, --trackName=');
+  validateFilter(filter);
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
     process.exit(1);
   }
 
-  return { artistName, albumName, trackName, count };
-}
+  if (!del && (dryRun || concurrency || verify)) {
+    console.error('Error: --concurrency, --verify and --dry-run only apply together with --delete');
+    process.exit(1);
+  }
 
-/**
- * Convert a glob-style pattern to a RegExp.
- * Supports `*` as a wildcard for any sequence of characters.
- * Matching is case-insensitive.
- */
-function globToRegex(pattern: string): RegExp {
-  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-  const withWildcards = escaped.replace(/\*/g, '.*');
-  return new RegExp(`^${withWildcards}$`, 'i');
-}
+  if (del && count) {
+    console.error('Error: --count and --delete cannot be combined');
+    process.exit(1);
+  }
 
-function matches(value: string | undefined, pattern: string): boolean {
-  if (value == null) return false;
-  return globToRegex(pattern).test(value);
+  return { filter, count, delete: del, dryRun, concurrency, verify, offline, car };
 }
 
-async function main() {
-  const { artistName, albumName, trackName, count } = parseArgs();
-
-  const handle = process.env.BLUESKY_HANDLE;
-  const appPassword = process.env.BLUESKY_APP_PASSWORD;
-  const pdsUrl = process.env.PDS_URL || 'https://bsky.social';
+async function run(args: string[]) {
+  const { filter, count, delete: del, dryRun, concurrency, verify, offline, car } = parseArgs(args);
 
-  if (!handle || !appPassword) {
-    console.error('Error: Missing credentials');
-    console.error('Create a .env file with BLUESKY_HANDLE and BLUESKY_APP_PASSWORD');
-    process.exit(1);
-  }
+  // Searching only reads; deleting the matches needs a session
+  const cfg = loadConfig(del);
+  const { handle, pdsUrl } = cfg;
 
   console.log(`\nSearch fm.teal.alpha.feed.play records`);
   console.log('='.repeat(40));
   console.log(`Handle: ${handle}`);
-  console.log(`PDS: ${pdsUrl}`);
-  if (artistName) console.log(`Artist: ${artistName}`);
-  if (albumName) console.log(`Album: ${albumName}`);
-  if (trackName) console.log(`Track: ${trackName}`);
+  console.log(`PDS: ${offline ? '(offline)' : pdsUrl ?? '(from the DID document)'}`);
+  printFilter(filter);
+  if (del) console.log(`Delete: every match${dryRun ? ' (DRY RUN)' : ''}`);
   console.log('');
 
-  console.log('Authenticating...');
-  const agent = new AtpAgent({ service: pdsUrl });
+  let source: RecordSource;
+  let agent: AtpAgent | undefined;
+  let repo: string | undefined;
 
-  try {
-    await agent.login({ identifier: handle, password: appPassword });
-  } catch (err: any) {
-    console.error(`Authentication failed: ${err.message}`);
-    process.exit(1);
+  if (del || !offline) {
+    ({ agent, repo } = del ? await login(cfg) : await connect(cfg));
   }
 
-  const repo = agent.session!.did;
-  console.log(`Authenticated as: ${repo}\n`);
+  if (offline) {
+    const cache = requireCache(handle);
+    if (repo && cache.repo !== repo) {
+      console.error(`Error: cache is for ${cache.repo}, but you are logged in as ${repo}`);
+      process.exit(1);
+    }
+    source = cacheSource(cache);
+    console.log('');
+  } else {
+    source = car ? carSource(agent!, repo!) : pdsSource(agent!, repo!);
+  }
 
   console.log('Searching...');
+  const found: ListedRecord[] = [];
+  const targets: RecordRef[] = [];
   let matched = 0;
   let scanned = 0;
 
-  for await (const record of listAllRecords(agent, repo)) {
+  // A time range only pages through the part of the collection it covers
+  for await (const record of listFilterCandidates(source, filter, printNotice)) {
     scanned++;
 
-    const v = record.value as any;
-    const recordArtist = v?.artists?.[0]?.artistName;
-    const recordAlbum = v?.releaseName;
-    const recordTrack = v?.trackName;
-
-    if (artistName && !matches(recordArtist, artistName)) continue;
-    if (albumName && !matches(recordAlbum, albumName)) continue;
-    if (trackName && !matches(recordTrack, trackName)) continue;
+    if (!matchesFilter(record, filter)) continue;
+    const v = record.value;
 
     matched++;
+    if (del) {
+      targets.push(toTarget(record));
+    }
 
-    if (!count) {
+    if (isJsonOutput()) {
+      if (!count && !del) found.push(record);
+    } else if (!count) {
       const playedAt = v?.playedTime ?? 'unknown';
-      console.log(`${recordTrack} — ${recordArtist} — ${recordAlbum} (${playedAt})`);
+      const artists = artistNames(v).join(', ') || '(no artists)';
+      const release = v?.releaseName ? ` — ${v.releaseName}` : '';
+      console.log(`${v?.trackName ?? '(no track name)'} — ${artists}${release} (${playedAt})`);
     }
 
     if (scanned % 500 === 0) {
@@ -118,9 +162,54 @@ async function main() {
   }
 
   console.log(`\nScanned ${scanned.toLocaleString()} records, ${matched.toLocaleString()} matched.`);
+  if (!del) {
+    printJson(count ? { scanned, matched } : { scanned, matched, records: found });
+    return;
+  }
+
+  const description = `Search matches (${describeFilter(filter)})`;
+  let records = targets;
+  let missing: string[] = [];
+
+  // A cache or CAR can be behind the PDS: only delete what is still there
+  if ((offline || car) && records.length > 0) {
+    ({ records, missing } = await checkSnapshotTargets(agent!, repo!, records, 'matches'));
+  }
+  console.log('');
+
+  if (records.length === 0) {
+    printJson({ dryRun, description, records: [] });
+    console.log('Nothing to delete.');
+    process.exit(0);
+  }
+
+  records.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  await runDeletion(agent!, repo!, { records, description, dryRun, concurrency, missing, verify });
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err);
-  process.exit(1);
-});
+export const command: Command = {
+  name: 'search',
+  summary: 'Find records by artist, album, track, time range or query expression',
+  usage: [
+    '<filters> [--count] [--offline|--car]',
+    '<filters> [--offline|--car] --delete [--concurrency=<n>] [--verify] [--dry-run]',
+  ],
+  options: [
+    ...FILTER_OPTIONS,
+    { name: '--count', description: 'Only count the matches' },
+    { name: '--delete', description: 'Delete the matches, through the same flow as `teal delete`' },
+    { ...CONCURRENCY_OPTION, description: `With --delete: ${CONCURRENCY_OPTION.description}` },
+    { ...VERIFY_OPTION, description: `With --delete: ${VERIFY_OPTION.description}` },
+    OFFLINE_OPTION,
+    CAR_OPTION,
+    DRY_RUN_OPTION,
+  ],
+  examples: [
+    '--artistName="Planning for Burial"',
+    '--artistName="Planning*" --start=2024-01-01 --count',
+    "--query='duration:>600 NOT releaseMbid:*' --json",
+    "--query='service:music.apple.com track:*Episode*' --delete --dry-run",
+  ],
+  json: true,
+  run,
+};
@@ -0,0 +1,242 @@
+import { AtpAgent, type AtpSessionData, type AtpSessionEvent } from '@atproto/api';
+import { config } from 'dotenv';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { resolveIdentity, type Identity } from './identity.js';
+
+const SESSIONS_DIR = 'sessions';
+
+export interface Config {
+  handle: string;
+  /** Missing when only offline or read-only commands are run */
+  appPassword?: string;
+  /** Missing when the PDS is to be resolved from the handle's DID document */
+  pdsUrl?: string;
+}
+
+export interface Session {
+  agent: AtpAgent;
+  /** DID of the account */
+  repo: string;
+}
+
+export interface AccountSelection {
+  /** Name of a `.env.<name>` file to read the account from */
+  profile?: string;
+  /** Handle or DID to target instead of the configured one */
+  handle?: string;
+}
+
+interface SavedSession {
+  service: string;
+  session: AtpSessionData;
+}
+
+let selection: AccountSelection = {};
+
+/**
+ * Choose the account for this run, from the global `--profile` and
+ * `--handle` options
+ */
+export function selectAccount(account: AccountSelection): void {
+  selection = account;
+}
+
+/**
+ * Read credentials from the environment (and `.env` or the selected
+ * profile), exiting if any needed ones are missing
+ * @param needsPassword - Whether the command has to log in; offline and
+ *   read-only runs only need the handle, and a saved session stands in
+ *   for the password
+ */
+export function loadConfig(needsPassword = true): Config {
+  if (selection.profile) {
+    const path = `.env.${selection.profile}`;
+    if (!existsSync(path)) {
+      console.error(`Error: No profile ${selection.profile} (expected a ${path} file)`);
+      process.exit(1);
+    }
+    // The profile picks the account, so it wins over anything exported
+    config({ path, override: true });
+  } else {
+    config();
+  }
+
+  const configuredHandle = process.env.BLUESKY_HANDLE;
+  const handle = selection.handle?.replace(/^@/, '') || configuredHandle;
+
+  // A password only belongs to the account it was configured for
+  const appPassword =
+    !selection.handle || !configuredHandle || configuredHandle.toLowerCase() === handle?.toLowerCase()
+      ? process.env.BLUESKY_APP_PASSWORD
+      : undefined;
+  const pdsUrl = selection.handle ? undefined : process.env.PDS_URL || 'https://bsky.social';
+
+  if (!handle || (needsPassword && !appPassword && !loadSession(handle))) {
+    console.error('Error: Missing credentials');
+    if (selection.handle) {
+      console.error(`Log in as ${handle} once with BLUESKY_APP_PASSWORD set, or use a profile for it`);
+    } else {
+      console.error(`Create a ${selection.profile ? `.env.${selection.profile}` : '.env'} file with BLUESKY_HANDLE and BLUESKY_APP_PASSWORD`);
+      console.error('See .env.example for reference');
+    }
+    process.exit(1);
+  }
+
+  return { handle, appPassword, pdsUrl };
+}
+
+function sessionPath(handle: string): string {
+  return join(SESSIONS_DIR, `${handle.toLowerCase()}.json`);
+}
+
+function loadSession(handle: string): SavedSession | undefined {
+  try {
+    return JSON.parse(readFileSync(sessionPath(handle), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write session tokens where only the current user can read them
+ */
+function saveSession(handle: string, saved: SavedSession): void {
+  mkdirSync(SESSIONS_DIR, { recursive: true, mode: 0o700 });
+  const path = sessionPath(handle);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(saved, null, 2), { mode: 0o600 });
+  chmodSync(tmp, 0o600);
+  renameSync(tmp, path);
+}
+
+function forgetSession(handle: string): void {
+  rmSync(sessionPath(handle), { force: true });
+}
+
+/**
+ * An agent that keeps `sessions/<handle>.json` up to date as tokens are
+ * issued and refreshed
+ */
+function createAgent(handle: string, service: string): AtpAgent {
+  return new AtpAgent({
+    service,
+    persistSession: (event: AtpSessionEvent, session?: AtpSessionData) => {
+      if ((event === 'create' || event === 'update') && session) {
+        saveSession(handle, { service, session });
+      } else if (event === 'expired' || event === 'create-failed') {
+        forgetSession(handle);
+      }
+    },
+  });
+}
+
+/**
+ * Find the PDS to talk to: the configured one, or the one in the DID
+ * document when a handle was given on the command line
+ */
+async function resolveService(cfg: Config, log: (message: string) => void): Promise<{ service: string; did?: string }> {
+  if (cfg.pdsUrl) return { service: cfg.pdsUrl };
+
+  log(`Resolving ${cfg.handle}...`);
+  const identity = await resolveAccount(cfg.handle);
+  log(`Resolved to ${identity.did} on ${identity.pdsUrl}`);
+  return { service: identity.pdsUrl, did: identity.did };
+}
+
+async function resolveAccount(handle: string): Promise<Identity> {
+  try {
+    return await resolveIdentity(handle);
+  } catch (err: any) {
+    throw new Error(`Could not resolve ${handle}: ${err.message}`);
+  }
+}
+
+/**
+ * Log in, resuming the saved session when there is one and falling back to
+ * the app password
+ * @param log - Where to print progress
+ * @throws If the account can't be resolved or neither way of logging in works
+ */
+export async function authenticate(cfg: Config, log: (message: string) => void = () => {}): Promise<Session> {
+  const saved = loadSession(cfg.handle);
+  const { service, did } = await resolveService(cfg, log);
+
+  if (saved && (!did || saved.session.did === did)) {
+    log('Resuming saved session...');
+    const agent = createAgent(cfg.handle, saved.service);
+    try {
+      await agent.resumeSession(saved.session);
+      const repo = agent.session!.did;
+      log(`Authenticated as: ${repo}\n`);
+      return { agent, repo };
+    } catch (err: any) {
+      if (!cfg.appPassword) {
+        throw new Error(`Saved session could not be resumed: ${err.message}\nSet BLUESKY_APP_PASSWORD to log in again`);
+      }
+      forgetSession(cfg.handle);
+    }
+  }
+
+  if (!cfg.appPassword) {
+    throw new Error(`No app password or saved session for ${cfg.handle}`);
+  }
+
+  log('Authenticating...');
+  const agent = createAgent(cfg.handle, service);
+
+  try {
+    await agent.login({ identifier: did ?? cfg.handle, password: cfg.appPassword });
+  } catch (err: any) {
+    throw new Error(`Authentication failed: ${err.message}`);
+  }
+
+  const repo = agent.session!.did;
+  log(`Authenticated as: ${repo}\n`);
+  return { agent, repo };
+}
+
+/**
+ * Open a repo for reading: log in when there are credentials or a saved
+ * session, otherwise read the public repo straight from its PDS
+ * @param log - Where to print progress
+ * @throws If the account can't be resolved or logging in fails
+ */
+export async function openRepo(cfg: Config, log: (message: string) => void = () => {}): Promise<Session> {
+  if (cfg.appPassword || loadSession(cfg.handle)) {
+    return authenticate(cfg, log);
+  }
+
+  // Only the account's own PDS serves its repo without a login
+  log(`Resolving ${cfg.handle}...`);
+  const identity = await resolveAccount(cfg.handle);
+
+  const repo = identity.did;
+  log(`Reading ${repo} on ${identity.pdsUrl} without logging in\n`);
+  return { agent: new AtpAgent({ service: identity.pdsUrl }), repo };
+}
+
+async function orExit(session: Promise<Session>): Promise<Session> {
+  try {
+    return await session;
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Log in like `authenticate`, exiting if that fails
+ * @param log - Where to print progress (stderr when stdout carries output)
+ */
+export function login(cfg: Config, log: (message: string) => void = console.log): Promise<Session> {
+  return orExit(authenticate(cfg, log));
+}
+
+/**
+ * Connect for reading like `openRepo`, exiting if that fails
+ * @param log - Where to print progress (stderr when stdout carries output)
+ */
+export function connect(cfg: Config, log: (message: string) => void = console.log): Promise<Session> {
+  return orExit(openRepo(cfg, log));
+}
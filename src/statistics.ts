@@ -0,0 +1,345 @@
+import { normalize } from './duplicates.js';
+import { artistNames } from './play.js';
+import { recordTime, type ListedRecord, type TimeSource } from './records.js';
+
+const STATS_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface RankedItem {
+  name: string;
+  /** Artist credit, for albums and tracks */
+  artist?: string;
+  plays: number;
+}
+
+export interface Streak {
+  days: number;
+  start: string;
+  end: string;
+}
+
+export interface YearSummary {
+  year: number;
+  plays: number;
+  /** Sum of `duration` over plays that have one, in seconds */
+  durationSec: number;
+  artists: number;
+  tracks: number;
+  topArtists: RankedItem[];
+  topTracks: RankedItem[];
+  busiestMonth?: { month: string; plays: number };
+  busiestDay?: { day: string; plays: number };
+  longestStreak?: Streak;
+}
+
+/**
+ * Listening statistics for a set of plays. Dates are calendar dates in
+ * `timezone`; this is also the shape written by `--format=json` and read
+ * back for `--compare`.
+ */
+export interface Stats {
+  version: number;
+  generatedAt: string;
+  timeSource: TimeSource;
+  timezone: string;
+  total: number;
+  /** Records without a usable time, left out of every count */
+  skipped: number;
+  durationSec: number;
+  first?: string;
+  last?: string;
+  topArtists: RankedItem[];
+  topAlbums: RankedItem[];
+  topTracks: RankedItem[];
+  perDay: { [day: string]: number };
+  perWeek: { [week: string]: number };
+  perMonth: { [month: string]: number };
+  /** Plays by weekday (Monday first) and hour of day */
+  heatmap: number[][];
+  streaks: { longest?: Streak; current?: Streak };
+  services: { [domain: string]: number };
+  years: YearSummary[];
+}
+
+export interface StatsOptions {
+  timeSource: TimeSource;
+  timezone: string;
+  /** How many entries to keep in each top list */
+  top: number;
+}
+
+/**
+ * Counts per normalized key, remembering how the key was first written
+ */
+interface Counter {
+  counts: Map<string, RankedItem>;
+}
+
+function createCounter(): Counter {
+  return { counts: new Map() };
+}
+
+function count(counter: Counter, key: string, name: string, artist?: string): void {
+  const item = counter.counts.get(key);
+  if (item) item.plays++;
+  else counter.counts.set(key, { name, artist, plays: 1 });
+}
+
+function topItems(counter: Counter, n: number): RankedItem[] {
+  return [...counter.counts.values()]
+    .sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name))
+    .slice(0, n);
+}
+
+function increment(map: { [key: string]: number }, key: string): void {
+  map[key] = (map[key] ?? 0) + 1;
+}
+
+/**
+ * ISO 8601 week of a calendar date, e.g. `2024-W09`
+ */
+function isoWeek(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const weekday = (date.getUTCDay() + 6) % 7; // Monday = 0
+  // The Thursday of this week decides which year the week belongs to
+  date.setUTCDate(date.getUTCDate() - weekday + 3);
+  const weekYear = date.getUTCFullYear();
+  const week = Math.ceil(((date.getTime() - Date.UTC(weekYear, 0, 1)) / DAY_MS + 1) / 7);
+  return `${weekYear}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Find the longest run of consecutive days, and the run ending on `today`
+ * (or the day before, so a streak isn't broken until a whole day is missed)
+ * @param days - Calendar dates (`YYYY-MM-DD`) with at least one play
+ */
+export function findStreaks(days: string[], today?: string): { longest?: Streak; current?: Streak } {
+  const sorted = [...days].sort();
+  let longest: Streak | undefined;
+  let run: Streak | undefined;
+
+  for (const day of sorted) {
+    if (run && Date.parse(day) - Date.parse(run.end) === DAY_MS) {
+      run = { days: run.days + 1, start: run.start, end: day };
+    } else {
+      run = { days: 1, start: day, end: day };
+    }
+    if (!longest || run.days > longest.days) longest = run;
+  }
+
+  let current: Streak | undefined;
+  if (run && today) {
+    const sinceEnd = Date.parse(today) - Date.parse(run.end);
+    if (sinceEnd >= 0 && sinceEnd <= DAY_MS) current = run;
+  }
+
+  return { longest, current };
+}
+
+/**
+ * Accumulates statistics one record at a time, so a whole collection can
+ * be streamed through it
+ */
+export interface StatsAccumulator {
+  add(record: ListedRecord): void;
+  finish(): Stats;
+}
+
+export function createStatsAccumulator(options: StatsOptions): StatsAccumulator {
+  const { timeSource, timezone, top } = options;
+
+  // Calendar parts in the requested timezone
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  });
+
+  const artists = createCounter();
+  const albums = createCounter();
+  const tracks = createCounter();
+  const perDay: { [day: string]: number } = {};
+  const perWeek: { [week: string]: number } = {};
+  const perMonth: { [month: string]: number } = {};
+  const heatmap = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+  const services: { [domain: string]: number } = {};
+  let total = 0;
+  let skipped = 0;
+  let durationSec = 0;
+  let first: Date | undefined;
+  let last: Date | undefined;
+
+  // Per-year counters for the year-in-review summaries
+  const years = new Map<
+    number,
+    { plays: number; durationSec: number; artists: Counter; tracks: Counter; months: { [m: string]: number }; days: { [d: string]: number } }
+  >();
+
+  return {
+    add(record) {
+      let time: Date;
+      try {
+        time = recordTime(record, timeSource);
+      } catch {
+        skipped++;
+        return;
+      }
+
+      const v = record.value;
+      const parts: { [type: string]: string } = {};
+      for (const part of format.formatToParts(time)) parts[part.type] = part.value;
+      const year = Number(parts.year);
+      const month = `${parts.year}-${parts.month}`;
+      const day = `${month}-${parts.day}`;
+
+      total++;
+      if (!first || time < first) first = time;
+      if (!last || time > last) last = time;
+
+      const duration = typeof v?.duration === 'number' && v.duration > 0 ? v.duration : 0;
+      durationSec += duration;
+
+      const credits = artistNames(v)
+        .map((n) => n.trim())
+        .filter((n) => n !== '');
+      const credit = credits.join(', ') || '(unknown artist)';
+      const trackName = typeof v?.trackName === 'string' && v.trackName.trim() ? v.trackName.trim() : '(unknown track)';
+      const trackKey = `${normalize(trackName)}\u0000${normalize(credit)}`;
+
+      for (const name of credits) count(artists, normalize(name), name);
+      if (typeof v?.releaseName === 'string' && v.releaseName.trim()) {
+        count(albums, `${normalize(v.releaseName)}\u0000${normalize(credit)}`, v.releaseName.trim(), credit);
+      }
+      count(tracks, trackKey, trackName, credit);
+
+      increment(perDay, day);
+      increment(perWeek, isoWeek(year, Number(parts.month), Number(parts.day)));
+      increment(perMonth, month);
+      heatmap[WEEKDAYS.indexOf(parts.weekday)][Number(parts.hour)]++;
+      increment(services, v?.musicServiceBaseDomain || '(unknown)');
+
+      let yearStats = years.get(year);
+      if (!yearStats) {
+        yearStats = { plays: 0, durationSec: 0, artists: createCounter(), tracks: createCounter(), months: {}, days: {} };
+        years.set(year, yearStats);
+      }
+      yearStats.plays++;
+      yearStats.durationSec += duration;
+      for (const name of credits) count(yearStats.artists, normalize(name), name);
+      count(yearStats.tracks, trackKey, trackName, credit);
+      increment(yearStats.months, month);
+      increment(yearStats.days, day);
+    },
+
+    finish() {
+      const sortKeys = (map: { [key: string]: number }) =>
+        Object.fromEntries(Object.entries(map).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+      const busiest = (map: { [key: string]: number }) =>
+        Object.entries(map).sort(([a, x], [b, y]) => y - x || (a < b ? -1 : 1))[0];
+
+      const todayParts: { [type: string]: string } = {};
+      for (const part of format.formatToParts(new Date())) todayParts[part.type] = part.value;
+      const today = `${todayParts.year}-${todayParts.month}-${todayParts.day}`;
+
+      return {
+        version: STATS_VERSION,
+        generatedAt: new Date().toISOString(),
+        timeSource,
+        timezone,
+        total,
+        skipped,
+        durationSec,
+        first: first?.toISOString(),
+        last: last?.toISOString(),
+        topArtists: topItems(artists, top),
+        topAlbums: topItems(albums, top),
+        topTracks: topItems(tracks, top),
+        perDay: sortKeys(perDay),
+        perWeek: sortKeys(perWeek),
+        perMonth: sortKeys(perMonth),
+        heatmap,
+        streaks: findStreaks(Object.keys(perDay), today),
+        services: Object.fromEntries(Object.entries(services).sort(([, a], [, b]) => b - a)),
+        years: [...years.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([year, y]) => {
+            const month = busiest(y.months);
+            const day = busiest(y.days);
+            return {
+              year,
+              plays: y.plays,
+              durationSec: y.durationSec,
+              artists: y.artists.counts.size,
+              tracks: y.tracks.counts.size,
+              topArtists: topItems(y.artists, 5),
+              topTracks: topItems(y.tracks, 5),
+              busiestMonth: month && { month: month[0], plays: month[1] },
+              busiestDay: day && { day: day[0], plays: day[1] },
+              longestStreak: findStreaks(Object.keys(y.days)).longest,
+            };
+          }),
+      };
+    },
+  };
+}
+
+export interface CountChange {
+  key: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Differences between two stats snapshots, e.g. before and after a cleanup
+ */
+export interface StatsComparison {
+  total: CountChange;
+  perMonth: CountChange[];
+  perDay: CountChange[];
+  services: CountChange[];
+  artists: CountChange[];
+}
+
+function changedCounts(
+  before: { [key: string]: number },
+  after: { [key: string]: number }
+): CountChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys
+    .map((key) => ({ key, before: before[key] ?? 0, after: after[key] ?? 0 }))
+    .filter((c) => c.before !== c.after);
+}
+
+/**
+ * Compare a saved snapshot with the current stats. Artists are compared
+ * over those in both top lists, since that's all a snapshot keeps.
+ */
+export function compareStats(before: Stats, after: Stats): StatsComparison {
+  if (before.version !== STATS_VERSION) {
+    throw new Error(`Unsupported stats version ${before.version}`);
+  }
+
+  const artistCounts = (stats: Stats) =>
+    Object.fromEntries(stats.topArtists.map((a) => [normalize(a.name), a.plays]));
+  const artistsBefore = artistCounts(before);
+  const artistsAfter = artistCounts(after);
+  // An artist missing from one top list may just have dropped off it
+  const shared = Object.keys(artistsBefore).filter((name) => name in artistsAfter);
+
+  return {
+    total: { key: 'total', before: before.total, after: after.total },
+    perMonth: changedCounts(before.perMonth, after.perMonth),
+    perDay: changedCounts(before.perDay, after.perDay),
+    services: changedCounts(before.services, after.services),
+    artists: changedCounts(
+      Object.fromEntries(shared.map((name) => [name, artistsBefore[name]])),
+      Object.fromEntries(shared.map((name) => [name, artistsAfter[name]]))
+    ),
+  };
+}
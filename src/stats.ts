@@ -0,0 +1,217 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { cacheSource, requireCache } from './cache.js';
+import { carSource } from './car.js';
+import { CAR_OPTION, isJsonOutput, OFFLINE_OPTION, printJson, printNotice, type Command } from './command.js';
+import {
+  FILTER_OPTIONS,
+  listFilterCandidates,
+  matchesFilter,
+  parseFilterArg,
+  printFilter,
+  validateFilter,
+  type PlayFilter,
+} from './filters.js';
+import { pdsSource, type RecordSource } from './records.js';
+import { formatComparison, formatStatsHtml, formatStatsTable } from './reports.js';
+import { connect, loadConfig } from './session.js';
+import { compareStats, createStatsAccumulator, type Stats } from './statistics.js';
+
+const STATS_FORMATS = ['table', 'json', 'html'] as const;
+type StatsFormat = (typeof STATS_FORMATS)[number];
+
+interface CliArgs {
+  filter: PlayFilter;
+  format: StatsFormat;
+  output?: string;
+  compare?: string;
+  year?: number;
+  top: number;
+  timezone: string;
+  offline: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  // Stats are about when plays happened, not when they were scrobbled
+  const filter: PlayFilter = { timeSource: 'playedTime' };
+  let format: StatsFormat = 'table';
+  let output: string | undefined;
+  let compare: string | undefined;
+  let year: number | undefined;
+  let top = 10;
+  let timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let offline = false;
+  let car = false;
+
+  for (const arg of args) {
+    if (arg === '--offline') {
+      offline = true;
+    } else if (arg === '--car') {
+      car = true;
+    } else if (arg.startsWith('--format=')) {
+      const value = arg.slice('--format='.length);
+      if (!STATS_FORMATS.includes(value as StatsFormat)) {
+        console.error(`Invalid format: ${value} (expected ${STATS_FORMATS.join(', ')})`);
+        process.exit(1);
+      }
+      format = value as StatsFormat;
+    } else if (arg.startsWith('--output=')) {
+      output = arg.slice('--output='.length);
+    } else if (arg.startsWith('--compare=')) {
+      compare = arg.slice('--compare='.length);
+    } else if (arg.startsWith('--year=')) {
+      year = parseInt(arg.slice('--year='.length), 10);
+      if (isNaN(year)) {
+        console.error(`Invalid year: ${arg.slice('--year='.length)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--top=')) {
+      top = parseInt(arg.slice('--top='.length), 10);
+      if (isNaN(top) || top < 1) {
+        console.error(`Invalid top value: ${arg.slice('--top='.length)}`);
+        process.exit(1);
+      }
+    } else if (arg.startsWith('--timezone=')) {
+      timezone = arg.slice('--timezone='.length);
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        console.error(`Invalid timezone: ${timezone}`);
+        process.exit(1);
+      }
+    } else {
+      parseFilterArg(arg, filter);
+    }
+  }
+
+  validateFilter(filter, false);
+
+  if (isJsonOutput()) {
+    format = 'json';
+  }
+
+  if (offline && car) {
+    console.error('Error: --offline and --car cannot be combined');
+    process.exit(1);
+  }
+
+  return { filter, format, output, compare, year, top, timezone, offline, car };
+}
+
+function readSavedStats(path: string): Stats {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err: any) {
+    console.error(`Could not read saved stats from ${path}: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+async function run(args: string[]) {
+  const { filter, format, output, compare, year, top, timezone, offline, car } = parseArgs(args);
+
+  // Status goes to stderr when the report itself is written to stdout
+  const log = output || format === 'table' ? console.log : console.error;
+
+  const saved = compare ? readSavedStats(compare) : undefined;
+
+  const cfg = loadConfig(false);
+  const { handle, pdsUrl } = cfg;
+
+  log(`\nListening stats for fm.teal.alpha.feed.play records`);
+  log('='.repeat(50));
+  log(`Handle: ${handle}`);
+  log(`PDS: ${offline ? '(offline)' : pdsUrl ?? '(from the DID document)'}`);
+  log(`Timezone: ${timezone}`);
+  if (log === console.log) printFilter(filter);
+  if (saved) log(`Comparing with: ${compare} (generated ${saved.generatedAt})`);
+  log('');
+
+  let source: RecordSource;
+
+  if (offline) {
+    source = cacheSource(requireCache(handle, log));
+  } else {
+    const { agent, repo } = await connect(cfg, log);
+    source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  }
+
+  const stats = createStatsAccumulator({ timeSource: filter.timeSource, timezone, top });
+  let scanned = 0;
+
+  for await (const record of listFilterCandidates(source, filter, printNotice)) {
+    scanned++;
+    if (scanned % 500 === 0) {
+      process.stderr.write(`\rScanned: ${scanned}`);
+    }
+
+    if (!matchesFilter(record, filter)) continue;
+    stats.add(record);
+  }
+
+  const result = stats.finish();
+  process.stderr.write(`\rScanned ${scanned.toLocaleString()} records.\n`);
+
+  if (saved && (saved.timezone !== result.timezone || saved.timeSource !== result.timeSource)) {
+    console.error(
+      `Warning: saved stats use ${saved.timezone} / ${saved.timeSource}, these use ${result.timezone} / ${result.timeSource}; day and month counts may not line up`
+    );
+  }
+
+  let comparison;
+  try {
+    comparison = saved && compareStats(saved, result);
+  } catch (err: any) {
+    console.error(`Could not compare with ${compare}: ${err.message}`);
+    process.exit(1);
+  }
+
+  let report: string;
+  if (format === 'json') {
+    // The comparison is kept apart so the report can itself be passed to --compare
+    report = JSON.stringify(comparison ? { ...result, comparison } : result, null, 2) + '\n';
+  } else if (format === 'html') {
+    report = formatStatsHtml(result, year);
+  } else {
+    report = formatStatsTable(result, year) + (comparison ? formatComparison(comparison) : '');
+  }
+
+  if (output) {
+    writeFileSync(output, report);
+    log(`\nWrote ${format} report to ${output}`);
+  } else if (isJsonOutput()) {
+    printJson(comparison ? { ...result, comparison } : result);
+  } else {
+    process.stdout.write(report);
+  }
+
+  if (comparison && format === 'html') {
+    console.error(formatComparison(comparison));
+  }
+}
+
+export const command: Command = {
+  name: 'stats',
+  summary: 'Listening statistics: top lists, activity over time, streaks and year in review',
+  usage: [`[--format=${STATS_FORMATS.join('|')}] [--output=<file>] [--year=<YYYY>] [--top=<n>] [--timezone=<IANA zone>] [--compare=<stats.json>] [filters] [--offline|--car]`],
+  options: [
+    { name: '--format', value: STATS_FORMATS.join('|'), description: 'Report format (default: table; --json is --format=json)' },
+    { name: '--output', value: 'file', description: 'File to write (default: stdout)' },
+    { name: '--year', value: 'YYYY', description: 'Year to show the year in review for (default: the latest)' },
+    { name: '--top', value: 'n', description: 'Entries in each top list (default: 10)' },
+    { name: '--timezone', value: 'IANA zone', description: 'Timezone for days and hours (default: the system zone)' },
+    { name: '--compare', value: 'stats.json', description: 'Saved JSON stats to compare against, e.g. from before a cleanup' },
+    ...FILTER_OPTIONS.map((o) =>
+      o.name === '--time-source' ? { ...o, description: 'Which time plays are dated by (default: playedTime)' } : o
+    ),
+    OFFLINE_OPTION,
+    CAR_OPTION,
+  ],
+  examples: [
+    '--year=2024 --format=html --output=2024.html',
+    '--format=json --output=before.json',
+    '--compare=before.json',
+  ],
+  json: true,
+  run,
+};
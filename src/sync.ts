@@ -0,0 +1,79 @@
+import { loadCache, syncCache } from './cache.js';
+import { carSource } from './car.js';
+import { CAR_OPTION, printJson, type Command } from './command.js';
+import { pdsSource } from './records.js';
+import { connect, loadConfig } from './session.js';
+
+interface CliArgs {
+  full: boolean;
+  car: boolean;
+}
+
+function parseArgs(args: string[]): CliArgs {
+  let full = false;
+  let car = false;
+
+  for (const arg of args) {
+    if (arg === '--full') {
+      full = true;
+    } else if (arg === '--car') {
+      car = true;
+    }
+  }
+
+  // A CAR export is always the whole repo, so there's nothing to gain from
+  // an incremental sync
+  return { full: full || car, car };
+}
+
+async function run(args: string[]) {
+  const { full, car } = parseArgs(args);
+
+  const cfg = loadConfig(false);
+  const { handle, pdsUrl } = cfg;
+
+  console.log(`\nSync fm.teal.alpha.feed.play records to the local cache`);
+  console.log('='.repeat(50));
+  console.log(`Handle: ${handle}`);
+  console.log(`PDS: ${pdsUrl ?? '(from the DID document)'}`);
+  console.log(`Mode: ${full ? 'FULL (re-list everything, drop deleted records)' : 'incremental'}`);
+  if (car) console.log('Source: CAR export (com.atproto.sync.getRepo)');
+  console.log('');
+
+  const { agent, repo } = await connect(cfg);
+
+  const cached = loadCache(repo);
+  if (cached) {
+    console.log(`Cache: ${cached.records.length.toLocaleString()} records, synced ${cached.syncedAt}`);
+  } else {
+    console.log('Cache: none yet, fetching the whole collection');
+  }
+
+  const startTime = Date.now();
+  const source = car ? carSource(agent, repo) : pdsSource(agent, repo);
+  const result = await syncCache(source, repo, handle, full, (fetched) => {
+    process.stdout.write(`\rFetched: ${fetched}`);
+  });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log('\n');
+  console.log('='.repeat(50));
+  console.log(`Completed in ${duration}s`);
+  console.log(`  Added: ${result.added}`);
+  if (full) console.log(`  Removed: ${result.removed}`);
+  console.log(`  Total cached: ${result.total}`);
+  printJson(result);
+}
+
+export const command: Command = {
+  name: 'sync',
+  summary: 'Mirror the collection into the local cache used by --offline',
+  usage: ['[--full] [--car]'],
+  options: [
+    { name: '--full', description: 'Re-list everything: drop records deleted elsewhere, pick up ones imported by other tools' },
+    { ...CAR_OPTION, description: 'Fetch the whole repo as one CAR export (implies --full)' },
+  ],
+  examples: ['--full', '--car'],
+  json: true,
+  run,
+};
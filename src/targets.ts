@@ -0,0 +1,148 @@
+import { AtpAgent } from '@atproto/api';
+import { COLLECTION, getPlayRecord, pdsSource, type ListedRecord, type RecordRef, type RecordSource } from './records.js';
+import { dateToTid, tidToDate } from './tid.js';
+
+// getRecord lookups in flight at once for targets that aren't TIDs
+const CHECK_CONCURRENCY = 8;
+
+// Targets further apart than this are listed as separate runs. A PDS pages
+// 100 records at a time, so a run costs no more calls than looking its
+// targets up one by one unless over 100 other plays fall between two of them.
+const RUN_GAP_MS = 60 * 60 * 1000;
+
+// TIDs in the lowercase form listRecords sorts by
+const TID_PATTERN = /^[2-7a-z]{13}$/;
+
+// Record key syntax from the AT Protocol spec
+const RKEY_PATTERN = /^[A-Za-z0-9._:~-]{1,512}$/;
+
+/**
+ * Parse a list of deletion targets: one rkey or `at://` URI per line, with
+ * blank lines and `#` comments ignored. URIs must point into the given
+ * repo's play collection.
+ * @param repo - DID of the repo being deleted from
+ * @param handle - Handle of the repo, also accepted as a URI's authority
+ * @returns rkeys in the order given, without repeats, and one message per bad line
+ */
+export function parseTargets(text: string, repo: string, handle?: string): { rkeys: string[]; errors: string[] } {
+  const rkeys = new Set<string>();
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+
+    let rkey = line;
+    if (line.startsWith('at://')) {
+      const [authority, collection, key, ...rest] = line.slice('at://'.length).split('/');
+      const ours = authority === repo || (handle !== undefined && authority.toLowerCase() === handle.toLowerCase());
+      if (!ours) {
+        errors.push(`line ${i + 1}: ${line} is not in ${repo}`);
+        return;
+      }
+      if (collection !== COLLECTION || !key || rest.length > 0) {
+        errors.push(`line ${i + 1}: ${line} is not a ${COLLECTION} record`);
+        return;
+      }
+      rkey = key;
+    }
+
+    if (!RKEY_PATTERN.test(rkey) || rkey === '.' || rkey === '..') {
+      errors.push(`line ${i + 1}: not an rkey or at:// URI: ${line}`);
+      return;
+    }
+    rkeys.add(rkey);
+  });
+
+  return { rkeys: [...rkeys], errors };
+}
+
+/**
+ * A listed record as a deletion target. Records whose rkey isn't a TID
+ * count as created at the epoch, so they sort first.
+ */
+export function toTarget(record: ListedRecord): RecordRef {
+  let createdAt: Date;
+  try {
+    createdAt = tidToDate(record.rkey);
+  } catch {
+    createdAt = new Date(0);
+  }
+  return { rkey: record.rkey, uri: record.uri, createdAt, value: record.value };
+}
+
+/**
+ * Split sorted TIDs into runs, breaking wherever two are far apart in time
+ */
+function tidRuns(tids: string[]): string[][] {
+  const runs: string[][] = [];
+  let last = -Infinity;
+  for (const tid of tids) {
+    const time = tidToDate(tid).getTime();
+    if (time - last > RUN_GAP_MS) runs.push([]);
+    runs[runs.length - 1].push(tid);
+    last = time;
+  }
+  return runs;
+}
+
+/**
+ * List the records from one TID to another, inclusive, oldest first
+ */
+async function* listRun(source: RecordSource, first: string, last: string): AsyncGenerator<ListedRecord> {
+  // Cursors are exclusive: start just before any TID in the first one's millisecond
+  const cursor = dateToTid(new Date(Math.max(tidToDate(first).getTime() - 1, 0)), 1023, 999);
+  for await (const record of source.list({ cursor, reverse: true })) {
+    if (record.rkey > last) return;
+    yield record;
+  }
+}
+
+/**
+ * Find which targets exist on the PDS, so only records that are there are
+ * deleted and the backup journal gets their values. Targets are listed by
+ * the TID ranges they span rather than looked up one at a time; rkeys that
+ * aren't TIDs are looked up with getRecord. Calls are retried on rate
+ * limiting and server errors.
+ * @param onProgress - Called with the number of targets checked so far
+ * @param log - Called with a line when a call waits or retries
+ * @returns The records found, oldest first, and the rkeys that weren't
+ * @throws If the PDS can't be read after the retries
+ */
+export async function checkTargets(
+  agent: AtpAgent,
+  repo: string,
+  rkeys: string[],
+  onProgress?: (checked: number) => void,
+  log?: (message: string) => void
+): Promise<{ found: RecordRef[]; missing: string[] }> {
+  const wanted = new Set(rkeys);
+  const tids = [...wanted].filter((rkey) => TID_PATTERN.test(rkey)).sort();
+  const others = [...wanted].filter((rkey) => !TID_PATTERN.test(rkey));
+  const records = new Map<string, RecordRef>();
+  let checked = 0;
+
+  const source = pdsSource(agent, repo, log);
+  for (const run of tidRuns(tids)) {
+    for await (const record of listRun(source, run[0], run[run.length - 1])) {
+      if (wanted.has(record.rkey)) records.set(record.rkey, toTarget(record));
+    }
+    checked += run.length;
+    onProgress?.(checked);
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < others.length) {
+      const rkey = others[next++];
+      const record = await getPlayRecord(agent, repo, rkey, log);
+      if (record) records.set(rkey, toTarget(record));
+      onProgress?.(++checked);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHECK_CONCURRENCY, others.length) }, worker));
+
+  const found = [...records.values()];
+  found.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  return { found, missing: [...wanted].filter((rkey) => !records.has(rkey)) };
+}
@@ -1,5 +1,5 @@
 /**
- * TID (Timestamp ID) parsing utilities
+ * TID (Timestamp ID) parsing and encoding utilities
  *
  * TIDs are 13-character strings using base32-sortable encoding.
  * The first 11 characters encode a microsecond timestamp.
@@ -20,6 +20,21 @@ function decodeChar(char: string): number {
   return index;
 }
 
+/**
+ * Encode a non-negative integer as a fixed-width base32-sortable string
+ */
+function encodeBase32(value: bigint, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result = B32_CHARS[Number(value % BigInt(32))] + result;
+    value = value / BigInt(32);
+  }
+  if (value > BigInt(0)) {
+    throw new Error(`Value too large for ${length} base32 characters`);
+  }
+  return result;
+}
+
 /**
  * Extract timestamp from a TID
  * @param tid - 13-character TID string
@@ -43,6 +58,29 @@ export function tidToDate(tid: string): Date {
   return new Date(milliseconds);
 }
 
+/**
+ * Build a TID from a timestamp
+ * @param date - Time to encode (millisecond precision)
+ * @param clockId - Clock ID for the last two characters (0-1023)
+ * @param micros - Extra microseconds to add within the millisecond (0-999)
+ * @returns 13-character TID string
+ */
+export function dateToTid(date: Date, clockId = 0, micros = 0): string {
+  const ms = date.getTime();
+  if (isNaN(ms) || ms < 0) {
+    throw new Error(`Cannot encode date as TID: ${date}`);
+  }
+  if (clockId < 0 || clockId > 1023) {
+    throw new Error(`Invalid TID clock ID: ${clockId}, expected 0-1023`);
+  }
+  if (micros < 0 || micros > 999) {
+    throw new Error(`Invalid microsecond offset: ${micros}, expected 0-999`);
+  }
+
+  const timestamp = BigInt(ms) * BigInt(1000) + BigInt(micros);
+  return encodeBase32(timestamp, 11) + encodeBase32(BigInt(clockId), 2);
+}
+
 /**
  * Check if a TID falls within a time range
  * @param tid - 13-character TID string
@@ -0,0 +1,237 @@
+import { AtpAgent } from '@atproto/api';
+import { isDeepStrictEqual } from 'util';
+import type { PlayRecord } from './play.js';
+import { loadRateLimiter, sleep, withRateLimit, type RateLimiter, type WriteOperation } from './ratelimit.js';
+import { getPlayRecord } from './records.js';
+
+const COLLECTION = 'fm.teal.alpha.feed.play';
+
+// applyWrites accepts up to 200 writes per call
+const BATCH_SIZE = 200;
+
+export interface RecordWrite {
+  rkey: string;
+  value: PlayRecord;
+  /**
+   * CID the record must still have (`swapRecord`), so a write based on an
+   * older read fails instead of overwriting whatever changed since
+   */
+  swapRecord?: string;
+}
+
+interface WriteProgress {
+  current: number;
+  total: number;
+  rkey: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Create or replace a single record under a given rkey, within the rate limit
+ * @param operation - Whether this creates or replaces a record, which
+ *   decides what it costs
+ * @throws A conflict error if the record no longer has the write's
+ *   `swapRecord` CID; it isn't retried, since it won't succeed
+ */
+async function putOne(
+  limiter: RateLimiter,
+  operation: WriteOperation,
+  agent: AtpAgent,
+  repo: string,
+  write: RecordWrite
+): Promise<void> {
+  try {
+    await withRateLimit(limiter, operation, 1, () =>
+      agent.com.atproto.repo.putRecord({
+        repo,
+        collection: COLLECTION,
+        rkey: write.rkey,
+        record: write.value,
+        swapRecord: write.swapRecord,
+      })
+    );
+  } catch (err: any) {
+    if (err.error !== 'InvalidSwap') throw err;
+
+    // A write retried after a server error may have landed the first time,
+    // changing the CID under its own retry. The JSON round trip drops
+    // undefined fields, as storing the record does.
+    const current = await getPlayRecord(agent, repo, write.rkey);
+    if (current && isDeepStrictEqual(current.value, JSON.parse(JSON.stringify(write.value)))) return;
+    throw new Error(`Conflict: the record changed after it was read and was left as it is (${err.message})`);
+  }
+}
+
+/**
+ * Write records through putRecord with rate limiting and progress reporting.
+ * putRecord is an upsert, so re-running the same writes is safe. Writes
+ * with a `swapRecord` CID only replace that version of the record; any
+ * other is reported as a conflict and left alone.
+ * @param agent - Authenticated ATP agent
+ * @param repo - DID of the repo
+ * @param writes - Values to write, keyed by rkey
+ * @param onProgress - Progress callback
+ * @param operation - `update` when replacing existing records, `create`
+ *   when putting back deleted ones
+ * @param limiter - Write budget to draw from; defaults to the one saved
+ *   for the repo by earlier runs
+ */
+export async function putRecords(
+  agent: AtpAgent,
+  repo: string,
+  writes: RecordWrite[],
+  onProgress?: (progress: WriteProgress) => void,
+  operation: WriteOperation = 'update',
+  limiter: RateLimiter = loadRateLimiter(repo)
+): Promise<{ written: number; failed: number; errors: string[] }> {
+  let written = 0;
+  let failed = 0;
+  const errors: string[] = [];
+
+  for (let i = 0; i < writes.length; i++) {
+    const write = writes[i];
+
+    try {
+      await putOne(limiter, operation, agent, repo, write);
+      written++;
+
+      if (onProgress) {
+        onProgress({
+          current: i + 1,
+          total: writes.length,
+          rkey: write.rkey,
+          success: true,
+        });
+      }
+    } catch (err: any) {
+      failed++;
+      errors.push(`Failed to write ${write.rkey}: ${err.message}`);
+
+      if (onProgress) {
+        onProgress({
+          current: i + 1,
+          total: writes.length,
+          rkey: write.rkey,
+          success: false,
+          error: err.message,
+        });
+      }
+    }
+
+    await sleep(50);
+  }
+
+  return { written, failed, errors };
+}
+
+/**
+ * Create a chunk of records in one applyWrites call. Any failure other
+ * than rate limiting or a server error is thrown straight away so the
+ * caller can split the chunk.
+ */
+async function applyCreates(limiter: RateLimiter, agent: AtpAgent, repo: string, writes: RecordWrite[]): Promise<void> {
+  await withRateLimit(limiter, 'create', writes.length, () =>
+    agent.com.atproto.repo.applyWrites({
+      repo,
+      writes: writes.map((write) => ({
+        $type: 'com.atproto.repo.applyWrites#create',
+        collection: COLLECTION,
+        rkey: write.rkey,
+        value: write.value,
+      })),
+    })
+  );
+}
+
+/**
+ * Create a chunk of records, splitting it in half on failure until the
+ * offending write is isolated. A single record is still created through
+ * applyWrites rather than putRecord, which would overwrite whatever
+ * already has its rkey; such a conflict is reported as a failure.
+ */
+async function createChunk(
+  limiter: RateLimiter,
+  agent: AtpAgent,
+  repo: string,
+  chunk: RecordWrite[],
+  report: (write: RecordWrite, error?: string) => void
+): Promise<void> {
+  if (chunk.length === 1) {
+    try {
+      await applyCreates(limiter, agent, repo, chunk);
+      report(chunk[0]);
+    } catch (err: any) {
+      const conflict = err.status === 400 && /already exists/i.test(err.message ?? '');
+      report(chunk[0], conflict ? `rkey is taken by another record, which was left as it was (${err.message})` : err.message);
+    }
+    return;
+  }
+
+  try {
+    await applyCreates(limiter, agent, repo, chunk);
+  } catch {
+    const mid = Math.ceil(chunk.length / 2);
+    await createChunk(limiter, agent, repo, chunk.slice(0, mid), report);
+    await createChunk(limiter, agent, repo, chunk.slice(mid), report);
+    return;
+  }
+
+  for (const write of chunk) {
+    report(write);
+  }
+}
+
+/**
+ * Create new records in batches through applyWrites, drawing on the same
+ * saved write budget as deletions
+ * @param agent - Authenticated ATP agent
+ * @param repo - DID of the repo
+ * @param writes - Values to create, keyed by rkey
+ * @param onProgress - Progress callback, called once per record in order
+ * @param limiter - Write budget to draw from; defaults to the one saved
+ *   for the repo by earlier runs
+ */
+export async function createRecords(
+  agent: AtpAgent,
+  repo: string,
+  writes: RecordWrite[],
+  onProgress?: (progress: WriteProgress) => void,
+  limiter: RateLimiter = loadRateLimiter(repo)
+): Promise<{ written: number; failed: number; errors: string[] }> {
+  let written = 0;
+  let failed = 0;
+  let current = 0;
+  const errors: string[] = [];
+
+  const report = (write: RecordWrite, error?: string) => {
+    current++;
+
+    if (error === undefined) {
+      written++;
+    } else {
+      failed++;
+      errors.push(`Failed to create ${write.rkey}: ${error}`);
+    }
+
+    if (onProgress) {
+      onProgress({
+        current,
+        total: writes.length,
+        rkey: write.rkey,
+        success: error === undefined,
+        error,
+      });
+    }
+  };
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const chunk = writes.slice(i, i + BATCH_SIZE);
+    await createChunk(limiter, agent, repo, chunk, report);
+
+    // Small delay between batches to be gentle on the server
+    await sleep(50);
+  }
+
+  return { written, failed, errors };
+}
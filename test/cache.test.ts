@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadCache, syncCache, updateCache } from '../src/cache.js';
+import { COLLECTION, memorySource, type ListedRecord } from '../src/records.js';
+import { dateToTid } from '../src/tid.js';
+
+const DID = 'did:plc:cachecachecachecachecach';
+
+/** A play created at the given hour of 2024-01-01 */
+function play(hour: number): ListedRecord {
+  const rkey = dateToTid(new Date(Date.UTC(2024, 0, 1, hour)));
+  return { uri: `at://${DID}/${COLLECTION}/${rkey}`, rkey, value: { $type: COLLECTION, trackName: `Track ${hour}` } };
+}
+
+describe('syncCache', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'teal-cache-'));
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('picks up plays created since the last sync behind newer imported ones', async () => {
+    const [first, second, live, imported] = [play(1), play(2), play(3), play(4)];
+    await syncCache(memorySource([first, second]), DID, 'cache.test', false, undefined, dir);
+
+    // A scrobbler writes a play, then an import writes a later one through our own run
+    updateCache(DID, { written: [imported] }, dir);
+    const result = await syncCache(memorySource([first, second, live, imported]), DID, 'cache.test', false, undefined, dir);
+
+    assert.deepEqual(result, { added: 1, removed: 0, total: 4 });
+    const cache = loadCache(DID, dir)!;
+    assert.deepEqual(cache.records.map((r) => r.rkey), [first, second, live, imported].map((r) => r.rkey));
+    assert.equal(cache.syncedThrough, imported.rkey);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Builds repo CAR files the way a PDS exports them (`com.atproto.sync.getRepo`):
+ * DAG-CBOR blocks addressed by sha-256 CIDs, a commit as the root and the
+ * records in a Merkle Search Tree whose layers come from hashing each key,
+ * so fixtures have the same mix of subtrees as a real repo.
+ */
+import { createHash } from 'crypto';
+
+// CIDv1, dag-cbor codec, sha2-256 multihash of 32 bytes
+const CID_PREFIX = [0x01, 0x71, 0x12, 0x20];
+
+// RFC 4648 base32, for CID strings ("b" multibase prefix)
+const BASE32_CHARS = 'abcdefghijklmnopqrstuvwxyz234567';
+
+/** CID link to a block, as raw CID bytes */
+class Link {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function head(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  if (length < 0x10000) return [(major << 5) | 25, length >> 8, length & 0xff];
+  return [(major << 5) | 26, ...[24, 16, 8, 0].map((shift) => (length >>> shift) & 0xff)];
+}
+
+/** Encode a value as DAG-CBOR: map keys sorted by length, then bytewise */
+function encode(value: unknown): Uint8Array {
+  const out: number[] = [];
+  const write = (item: unknown): void => {
+    if (item === null || item === undefined) {
+      out.push(0xf6);
+    } else if (typeof item === 'boolean') {
+      out.push(item ? 0xf5 : 0xf4);
+    } else if (typeof item === 'number') {
+      if (!Number.isInteger(item)) throw new Error(`Fixture values must be integers: ${item}`);
+      out.push(...(item >= 0 ? head(0, item) : head(1, -1 - item)));
+    } else if (typeof item === 'string') {
+      const bytes = Buffer.from(item, 'utf-8');
+      out.push(...head(3, bytes.length), ...bytes);
+    } else if (item instanceof Link) {
+      out.push(0xd8, 42, ...head(2, item.bytes.length + 1), 0x00, ...item.bytes);
+    } else if (item instanceof Uint8Array) {
+      out.push(...head(2, item.length), ...item);
+    } else if (Array.isArray(item)) {
+      out.push(...head(4, item.length));
+      item.forEach(write);
+    } else if (typeof item === 'object') {
+      const entries = Object.entries(item).sort(([a], [b]) => a.length - b.length || (a < b ? -1 : 1));
+      out.push(...head(5, entries.length));
+      for (const [key, entry] of entries) {
+        write(key);
+        write(entry);
+      }
+    }
+  };
+  write(value);
+  return Uint8Array.from(out);
+}
+
+function cidOf(data: Uint8Array): Uint8Array {
+  return Uint8Array.from([...CID_PREFIX, ...createHash('sha256').update(data).digest()]);
+}
+
+/**
+ * CID string of a record value, as a PDS reports it and a CAR export
+ * addresses its block
+ */
+export function recordCid(value: unknown): string {
+  let bits = 0;
+  let acc = 0;
+  let result = 'b';
+  for (const byte of cidOf(encode(value))) {
+    acc = ((acc << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_CHARS[(acc >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) result += BASE32_CHARS[(acc << (5 - bits)) & 31];
+  return result;
+}
+
+/** MST layer of a key: leading zero bits of its sha-256, two per layer */
+function layerOf(key: string): number {
+  const digest = createHash('sha256').update(key).digest();
+  let zeros = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      zeros += 8;
+      continue;
+    }
+    zeros += Math.clz32(byte) - 24;
+    break;
+  }
+  return Math.floor(zeros / 2);
+}
+
+export interface CarRecord {
+  collection: string;
+  rkey: string;
+  value: unknown;
+}
+
+/**
+ * Build a CAR export of a repo holding the given records, in any order
+ */
+export function buildRepoCar(did: string, records: CarRecord[]): Uint8Array {
+  const blocks: { cid: Uint8Array; data: Uint8Array }[] = [];
+  const put = (value: unknown): Link => {
+    const data = encode(value);
+    const cid = cidOf(data);
+    blocks.push({ cid, data });
+    return new Link(cid);
+  };
+
+  const entries = records
+    .map((r) => ({ key: `${r.collection}/${r.rkey}`, value: put(r.value) }))
+    .sort((a, b) => (a.key < b.key ? -1 : 1))
+    .map((entry) => ({ ...entry, layer: layerOf(entry.key) }));
+
+  // A node holds the keys of its layer; the runs of lower keys around them
+  // become subtrees one layer down
+  const node = (keys: typeof entries, layer: number): Link => {
+    const own = keys.filter((k) => k.layer === layer);
+    const subtree = (run: typeof entries) => (run.length > 0 ? node(run, layer - 1) : null);
+    const before = (i: number) => keys.filter((k) => k.key < own[i].key && (i === 0 || k.key > own[i - 1].key));
+
+    let lastKey = '';
+    const e = own.map((entry, i) => {
+      let p = 0;
+      while (p < lastKey.length && lastKey[p] === entry.key[p]) p++;
+      lastKey = entry.key;
+      const after = keys.filter((k) => k.key > entry.key && (i === own.length - 1 || k.key < own[i + 1].key));
+      return { k: Buffer.from(entry.key.slice(p)), p, t: subtree(after), v: entry.value };
+    });
+    return put({ e, l: own.length > 0 ? subtree(before(0)) : subtree(keys) });
+  };
+
+  const top = Math.max(0, ...entries.map((e) => e.layer));
+  const data = node(entries, top);
+  const root = put({ did, version: 3, data, rev: '3l2fixturerev', prev: null, sig: new Uint8Array(64) });
+
+  const header = encode({ version: 1, roots: [root] });
+  const chunks = [Uint8Array.from(varint(header.length)), header];
+  // Root first, as a PDS writes it
+  for (const { cid, data: bytes } of [blocks[blocks.length - 1], ...blocks.slice(0, -1)]) {
+    chunks.push(Uint8Array.from(varint(cid.length + bytes.length)), cid, bytes);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import { carSource, readRepoCar } from '../src/car.js';
+import {
+  COLLECTION,
+  listRecordsInRange,
+  memorySource,
+  type ListedRecord,
+  type ListOptions,
+  type RecordSource,
+} from '../src/records.js';
+import { dateToTid } from '../src/tid.js';
+import { buildRepoCar, recordCid, type CarRecord } from './car-fixture.js';
+import { addPlays, startMockPds, type MockPds } from './mock-pds.js';
+
+const DID = 'did:plc:carcarcarcarcarcarcarcar';
+const HOUR = 60 * 60 * 1000;
+
+// Collections sorting before and after the play collection, including
+// ones sharing its prefix
+const OTHER_COLLECTIONS = [
+  'app.bsky.actor.profile',
+  'app.bsky.feed.post',
+  'fm.teal.alpha.actor.profile',
+  'fm.teal.alpha.feed.play.note',
+  'fm.teal.alpha.feed.playlist',
+  'xyz.statusphere.status',
+];
+
+function hourly(count: number): Date[] {
+  return Array.from({ length: count }, (_, i) => new Date(Date.UTC(2024, 0, 1) + i * HOUR));
+}
+
+/** Records of every other collection, a few per collection */
+function others(perCollection: number): CarRecord[] {
+  return OTHER_COLLECTIONS.flatMap((collection) =>
+    Array.from({ length: perCollection }, (_, i) => ({
+      collection,
+      rkey: i === 0 ? 'self' : `3l${String(i).padStart(11, '2')}`,
+      value: { $type: collection, text: `${collection} ${i}`, count: i },
+    }))
+  );
+}
+
+/** The plays a mock PDS holds, as a sorted listing would return them */
+function playsOf(pds: MockPds): ListedRecord[] {
+  return [...pds.records.entries()]
+    .map(([rkey, value]) => ({ uri: `at://${pds.did}/${COLLECTION}/${rkey}`, rkey, cid: recordCid(value), value }))
+    .sort((a, b) => (a.rkey < b.rkey ? -1 : 1));
+}
+
+async function collect(records: AsyncIterable<ListedRecord>): Promise<ListedRecord[]> {
+  const result: ListedRecord[] = [];
+  for await (const record of records) result.push(record);
+  return result;
+}
+
+describe('readRepoCar', () => {
+  it('reads only the play records, in rkey order, with their CIDs', () => {
+    const plays: CarRecord[] = [
+      { collection: COLLECTION, rkey: '3l2bbbbbbbbb2', value: { $type: COLLECTION, trackName: 'Second', duration: 300 } },
+      { collection: COLLECTION, rkey: '3l2aaaaaaaaa2', value: { $type: COLLECTION, trackName: 'First', artists: [{ artistName: 'Ärtist' }] } },
+    ];
+
+    const { repo, records } = readRepoCar(buildRepoCar(DID, [...others(3), ...plays]));
+
+    assert.equal(repo, DID);
+    assert.deepEqual(records, [
+      { uri: `at://${DID}/${COLLECTION}/3l2aaaaaaaaa2`, rkey: '3l2aaaaaaaaa2', cid: recordCid(plays[1].value), value: plays[1].value },
+      { uri: `at://${DID}/${COLLECTION}/3l2bbbbbbbbb2`, rkey: '3l2bbbbbbbbb2', cid: recordCid(plays[0].value), value: plays[0].value },
+    ]);
+  });
+
+  it('finds every play in a repo deep enough to have subtrees', () => {
+    const times = hourly(400);
+    const plays: CarRecord[] = times.map((time, i) => ({
+      collection: COLLECTION,
+      rkey: dateToTid(time),
+      value: { $type: COLLECTION, trackName: `Track ${i}` },
+    }));
+
+    const { records } = readRepoCar(buildRepoCar(DID, [...others(40), ...plays]));
+
+    assert.deepEqual(
+      records.map((r) => r.rkey),
+      plays.map((p) => p.rkey).sort()
+    );
+  });
+
+  it('returns no records when the collection is empty', () => {
+    assert.deepEqual(readRepoCar(buildRepoCar(DID, others(5))).records, []);
+    assert.deepEqual(readRepoCar(buildRepoCar(DID, [])), { repo: DID, records: [] });
+  });
+
+  it('rejects a truncated file', () => {
+    const bytes = buildRepoCar(DID, others(2));
+    assert.throws(() => readRepoCar(bytes.subarray(0, bytes.length - 10)), /truncated/);
+  });
+});
+
+describe('carSource', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+  });
+  after(() => pds.close());
+  beforeEach(() => {
+    pds.records.clear();
+    pds.others.clear();
+    pds.calls.length = 0;
+  });
+
+  it('lists the same records as a memory source, downloading the repo once', async () => {
+    const times = hourly(250);
+    const rkeys = addPlays(pds, times);
+    for (const record of others(20)) pds.others.set(`${record.collection}/${record.rkey}`, record.value);
+
+    const sources: { [name: string]: RecordSource } = {
+      car: carSource(agent, pds.did),
+      memory: memorySource(playsOf(pds)),
+    };
+    const optionSets: ListOptions[] = [
+      {},
+      { reverse: true },
+      { limit: 10 },
+      { cursor: rkeys[100] },
+      { cursor: rkeys[100], reverse: true, limit: 5 },
+    ];
+
+    for (const options of optionSets) {
+      assert.deepEqual(await collect(sources.car.list(options)), await collect(sources.memory.list(options)), JSON.stringify(options));
+    }
+    assert.deepEqual(
+      await collect(listRecordsInRange(sources.car, times[10], times[20])),
+      await collect(listRecordsInRange(sources.memory, times[10], times[20]))
+    );
+    assert.equal(pds.count('getRepo'), 1);
+    assert.equal(pds.count('listRecords'), 0);
+  });
+
+  it('lists nothing when the repo has no plays', async () => {
+    for (const record of others(3)) pds.others.set(`${record.collection}/${record.rkey}`, record.value);
+
+    assert.deepEqual(await collect(carSource(agent, pds.did).list()), []);
+    assert.deepEqual(await collect(listRecordsInRange(carSource(agent, pds.did), new Date(Date.UTC(2024, 0, 1)), new Date())), []);
+  });
+});
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import { deleteRecords } from '../src/deleter.js';
+import { loadRateLimiter, type RateLimiter } from '../src/ratelimit.js';
+import { COLLECTION, type RecordRef } from '../src/records.js';
+import { tidToDate } from '../src/tid.js';
+import { addPlays, notFound, rateLimited, serverError, startMockPds, type MockPds } from './mock-pds.js';
+
+describe('deleteRecords', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+  let root: string;
+  let limiter: RateLimiter;
+
+  /** Add plays a minute apart and return them as deletion targets */
+  const plays = (count: number): RecordRef[] =>
+    addPlays(
+      pds,
+      Array.from({ length: count }, (_, i) => new Date(Date.UTC(2024, 0, 1) + i * 60_000))
+    ).map((rkey) => ({ rkey, uri: `at://${pds.did}/${COLLECTION}/${rkey}`, createdAt: tidToDate(rkey) }));
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+    root = mkdtempSync(join(tmpdir(), 'teal-ratelimits-'));
+  });
+  after(async () => {
+    await pds.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+    // A fresh budget per test, kept out of the working directory
+    limiter = loadRateLimiter(pds.did, mkdtempSync(join(root, 'run-')));
+  });
+
+  it('deletes in batches of 200 and reports every record in order', async () => {
+    const targets = plays(450);
+    const seen: string[] = [];
+
+    const result = await deleteRecords(agent, pds.did, targets, (p) => seen.push(p.rkey), limiter);
+
+    assert.deepEqual(result, { deleted: 450, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.records.size, 0);
+    assert.deepEqual(seen, targets.map((t) => t.rkey));
+    assert.deepEqual(pds.calls.filter((c) => c.method === 'applyWrites').map((c) => c.body.writes.length), [200, 200, 50]);
+  });
+
+  it('is idempotent: deleting records that are already gone succeeds', async () => {
+    const targets = plays(10);
+    await deleteRecords(agent, pds.did, targets, undefined, limiter);
+
+    // applyWrites rejects the batch, so each record is retried on its own
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+    assert.deepEqual(result, { deleted: 10, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.count('deleteRecord'), 10);
+  });
+
+  it('counts a 400 "not found" on a single delete as missing, not failed', async () => {
+    const targets = plays(1);
+    pds.fail('deleteRecord', notFound());
+
+    const seen: { missing?: boolean; success: boolean }[] = [];
+    const result = await deleteRecords(agent, pds.did, targets, (p) => seen.push(p), limiter);
+    assert.deepEqual(result, { deleted: 0, missing: 1, failed: 0, errors: [] });
+    assert.deepEqual(seen.map(({ missing, success }) => ({ missing, success })), [{ missing: true, success: true }]);
+  });
+
+  it('splits a failing batch to isolate the missing record', async () => {
+    const targets = plays(8);
+    pds.records.delete(targets[5].rkey);
+
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+    assert.deepEqual(result, { deleted: 8, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.records.size, 0);
+    // 8 → 4 + [4 → 2 + [2 → 1 + 1]]: only the missing record ends up on its own
+    assert.deepEqual(
+      pds.calls.filter((c) => c.method === 'applyWrites').map((c) => c.body.writes.length),
+      [8, 4, 4, 2, 2]
+    );
+    assert.equal(pds.count('deleteRecord'), 2);
+  });
+
+  it('waits for ratelimit-reset after a 429 and retries without failing', async () => {
+    const targets = plays(5);
+    pds.fail('applyWrites', rateLimited(1));
+    const log: string[] = [];
+    limiter.log = (message) => log.push(message);
+
+    const startedAt = Date.now();
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+
+    assert.deepEqual(result, { deleted: 5, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.count('applyWrites'), 2);
+    assert.ok(Date.now() - startedAt >= 900, 'waited for the reset');
+    assert.equal(log.length, 1);
+    assert.match(log[0], /^Rate limited\. Waiting \d+s\.\.\.$/);
+  });
+
+  it('does not spend retries on 429s', async () => {
+    const targets = plays(1);
+    // More 429s than retries, then a success
+    pds.fail('deleteRecord', rateLimited(0), rateLimited(0), rateLimited(0), rateLimited(0));
+
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+    assert.deepEqual(result, { deleted: 1, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.count('deleteRecord'), 5);
+  });
+
+  it('backs off and retries transient server errors', async () => {
+    const targets = plays(3);
+    pds.fail('applyWrites', serverError());
+    const log: string[] = [];
+    limiter.log = (message) => log.push(message);
+
+    const startedAt = Date.now();
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+
+    assert.deepEqual(result, { deleted: 3, missing: 0, failed: 0, errors: [] });
+    assert.equal(pds.count('applyWrites'), 2);
+    assert.ok(Date.now() - startedAt >= 1000, 'backed off before retrying');
+    assert.deepEqual(log, ['Retrying in 1000ms after error: Bad gateway']);
+  });
+
+  it('reports a record as failed once its retries run out', async () => {
+    const targets = plays(1);
+    pds.fail('deleteRecord', serverError(), serverError(), serverError());
+
+    const seen: { rkey: string; success: boolean }[] = [];
+    const result = await deleteRecords(agent, pds.did, targets, (p) => seen.push(p), limiter);
+
+    assert.equal(result.deleted, 0);
+    assert.equal(result.failed, 1);
+    assert.match(result.errors[0], /Failed to delete .*: Bad gateway/);
+    assert.equal(seen[0].success, false);
+    assert.equal(pds.records.size, 1);
+  });
+
+  it('fails straight away on other client errors', async () => {
+    const targets = plays(1);
+    pds.fail('deleteRecord', { status: 400, error: 'InvalidRequest', message: 'Invalid rkey' });
+
+    const result = await deleteRecords(agent, pds.did, targets, undefined, limiter);
+    assert.equal(result.failed, 1);
+    assert.equal(pds.count('deleteRecord'), 1);
+  });
+
+  it('keeps progress in order with concurrent batches and a 429 in one of them', async () => {
+    const targets = plays(400);
+    pds.fail('applyWrites', rateLimited(1));
+    const seen: number[] = [];
+
+    const result = await deleteRecords(agent, pds.did, targets, (p) => seen.push(p.current), limiter, 8);
+
+    assert.deepEqual(result, { deleted: 400, missing: 0, failed: 0, errors: [] });
+    assert.deepEqual(seen, Array.from({ length: 400 }, (_, i) => i + 1));
+    assert.equal(pds.records.size, 0);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyEdits, diffValues, parseAssignment } from '../src/edits.js';
+import { artistSelector, parseFilterArg, type PlayFilter } from '../src/filters.js';
+import type { PlayRecord } from '../src/play.js';
+import { COLLECTION } from '../src/records.js';
+
+const play: PlayRecord = {
+  $type: COLLECTION,
+  trackName: 'Song',
+  artists: [{ artistName: 'Planning For Burial' }, { artistName: 'Someone Else' }],
+  playedTime: '2024-01-01T00:00:00.000Z',
+};
+
+/** Parse filter flags as the edit command does */
+function filterOf(...args: string[]): PlayFilter {
+  const filter: PlayFilter = { timeSource: 'tid' };
+  for (const arg of args) assert.equal(parseFilterArg(arg, filter), true);
+  return filter;
+}
+
+/** Rename artists on the play the way `npm run edit` would with the given filter */
+function rename(...args: string[]): string[] {
+  const edits = [parseAssignment('set', 'artistName=Planning for Burial')];
+  const after = applyEdits(play, edits, artistSelector(filterOf(...args)));
+  return (after.artists ?? []).map((artist) => artist.artistName);
+}
+
+describe('artist-level edits', () => {
+  it('only touch the artists a --query artist term selected', () => {
+    assert.deepEqual(rename('--query=artist:"planning for*"'), ['Planning for Burial', 'Someone Else']);
+    assert.deepEqual(rename('--query=artist:/burial$/i played:2024'), ['Planning for Burial', 'Someone Else']);
+  });
+
+  it('only touch the artists --artistName matched', () => {
+    assert.deepEqual(rename('--artistName=Planning*'), ['Planning for Burial', 'Someone Else']);
+  });
+
+  it('need an artist to match both --artistName and the query', () => {
+    assert.deepEqual(rename('--artistName=*Else', '--query=artist:Planning*'), ['Planning For Burial', 'Someone Else']);
+  });
+
+  it('ignore negated artist terms', () => {
+    const filter = filterOf('--query=track:Song -artist:Nobody');
+    assert.equal(artistSelector(filter), undefined);
+    assert.deepEqual(rename('--query=track:Song -artist:Nobody'), ['Planning for Burial', 'Planning for Burial']);
+  });
+
+  it('show up in the diff for the selected artist alone', () => {
+    const edits = [parseAssignment('set', 'artistName=Planning for Burial')];
+    const after = applyEdits(play, edits, artistSelector(filterOf('--query=artist:Planning*')));
+
+    assert.deepEqual(diffValues(play, after), [
+      { path: 'artists[0].artistName', before: 'Planning For Burial', after: 'Planning for Burial' },
+    ]);
+    assert.equal(play.artists![0].artistName, 'Planning For Burial');
+  });
+});
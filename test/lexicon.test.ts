@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fixRecord, isPlayRecord, PROBLEM_KINDS, validateRecord, type ProblemKind } from '../src/lexicon.js';
+import { artistMbIds, artistNames, type PlayRecord } from '../src/play.js';
+import { COLLECTION } from '../src/records.js';
+import { dateToTid } from '../src/tid.js';
+
+const MBID = '8f8c6c2e-0b4c-4a1f-9a0e-2b9d6b1e4c3a';
+const OTHER_MBID = '0b3c4d5e-6f70-4812-9a3b-4c5d6e7f8091';
+const RKEY = dateToTid(new Date(Date.UTC(2024, 0, 1)), 3);
+
+const play: PlayRecord = {
+  $type: COLLECTION,
+  trackName: 'Song',
+  artists: [{ artistName: 'First', artistMbId: MBID }, { artistName: 'Second' }],
+  duration: 180,
+  playedTime: '2024-01-01T00:00:00.000Z',
+};
+
+describe('isPlayRecord', () => {
+  it('accepts a play, including one clients would find lacking', () => {
+    assert.equal(isPlayRecord(play), true);
+    assert.equal(isPlayRecord({ $type: COLLECTION, trackName: ' Song ' }), true);
+  });
+
+  it('rejects values outside the type', () => {
+    assert.equal(isPlayRecord(null), false);
+    assert.equal(isPlayRecord([play]), false);
+    assert.equal(isPlayRecord({ ...play, $type: 'app.bsky.feed.post' }), false);
+    assert.equal(isPlayRecord({ ...play, trackName: undefined }), false);
+    assert.equal(isPlayRecord({ ...play, releaseName: 42 }), false);
+    assert.equal(isPlayRecord({ ...play, artists: 'First' }), false);
+    assert.equal(isPlayRecord({ ...play, artists: [{ artistMbId: MBID }] }), false);
+    assert.equal(isPlayRecord({ ...play, duration: '180' }), false);
+  });
+});
+
+describe('artistNames and artistMbIds', () => {
+  it('list the artists in order', () => {
+    assert.deepEqual(artistNames(play), ['First', 'Second']);
+    assert.deepEqual(artistMbIds(play), [MBID]);
+  });
+
+  it('tolerate missing or malformed artists', () => {
+    assert.deepEqual(artistNames(undefined), []);
+    assert.deepEqual(artistNames({ $type: COLLECTION, trackName: 'Song' }), []);
+    const malformed = { ...play, artists: [null, { artistName: 7 }, { artistName: 'Third' }] } as unknown as PlayRecord;
+    assert.deepEqual(artistNames(malformed), ['Third']);
+    assert.deepEqual(artistMbIds({ ...play, artists: 'First' } as unknown as PlayRecord), []);
+  });
+});
+
+/** A record with exactly one problem of each kind, and whether fixRecord repairs it */
+const CASES: { kind: ProblemKind; rkey?: string; value: unknown; fixable: boolean }[] = [
+  { kind: 'invalid-rkey', rkey: 'self', value: play, fixable: false },
+  { kind: 'not-an-object', value: 'Song', fixable: false },
+  { kind: 'wrong-type', value: { ...play, $type: 'app.bsky.feed.post' }, fixable: true },
+  { kind: 'missing-track-name', value: { ...play, trackName: undefined }, fixable: false },
+  { kind: 'missing-artists', value: { ...play, artists: [] }, fixable: false },
+  { kind: 'missing-artist-name', value: { ...play, artists: [{ artistMbId: MBID }] }, fixable: false },
+  { kind: 'missing-played-time', value: { ...play, playedTime: undefined }, fixable: false },
+  { kind: 'wrong-field-type', value: { ...play, releaseName: 42 }, fixable: false },
+  { kind: 'empty-string', value: { ...play, releaseName: ' ' }, fixable: true },
+  { kind: 'untrimmed', value: { ...play, trackName: ' Song ' }, fixable: true },
+  { kind: 'too-long', value: { ...play, trackName: 'x'.repeat(257) }, fixable: false },
+  { kind: 'invalid-datetime', value: { ...play, playedTime: '2024-01-01 00:00:00Z' }, fixable: true },
+  { kind: 'invalid-mbid', value: { ...play, releaseMbId: 'not-an-mbid' }, fixable: true },
+  { kind: 'invalid-isrc', value: { ...play, isrc: 'us-abc-24-00001' }, fixable: true },
+  { kind: 'invalid-url', value: { ...play, originUrl: 'not a url' }, fixable: true },
+  { kind: 'invalid-duration', value: { ...play, duration: 180.4 }, fixable: true },
+  { kind: 'deprecated-field', value: { ...play, artistNames: ['First', 'Second'] }, fixable: true },
+];
+
+describe('validateRecord', () => {
+  it('finds nothing wrong with a valid play', () => {
+    assert.deepEqual(validateRecord({ rkey: RKEY, value: play }), []);
+  });
+
+  it('has a case for every problem kind', () => {
+    assert.deepEqual(CASES.map((c) => c.kind).sort(), [...PROBLEM_KINDS].sort());
+  });
+
+  for (const { kind, rkey = RKEY, value, fixable } of CASES) {
+    it(`reports ${kind}`, () => {
+      const problems = validateRecord({ rkey, value });
+      assert.deepEqual(
+        problems.map((p) => [p.kind, p.fixable]),
+        [[kind, fixable]]
+      );
+    });
+  }
+});
+
+describe('fixRecord', () => {
+  for (const { kind, rkey = RKEY, value, fixable } of CASES) {
+    it(`${fixable ? 'repairs' : 'leaves'} ${kind}`, () => {
+      const remaining = validateRecord({ rkey, value: fixRecord(value) }).map((p) => p.kind);
+      assert.deepEqual(remaining, fixable ? [] : [kind]);
+    });
+  }
+
+  it('repairs several problems at once and leaves the original alone', () => {
+    const value = {
+      ...play,
+      $type: undefined,
+      trackName: ' Song ',
+      releaseName: '',
+      releaseMbId: MBID.toUpperCase(),
+      isrc: 'USABC2400001 ',
+      duration: '180',
+      artists: [{ artistName: ' First ', artistMbId: 'unknown' }],
+    };
+    const original = structuredClone(value);
+
+    const fixed = fixRecord(value);
+
+    assert.deepEqual(validateRecord({ rkey: RKEY, value: fixed }), []);
+    assert.deepEqual(value, original);
+    assert.deepEqual(fixed, {
+      $type: COLLECTION,
+      trackName: 'Song',
+      releaseMbId: MBID,
+      isrc: 'USABC2400001',
+      duration: 180,
+      artists: [{ artistName: 'First' }],
+      playedTime: play.playedTime,
+    });
+  });
+
+  it('moves legacy artist arrays into artists', () => {
+    const legacy = {
+      $type: COLLECTION,
+      trackName: 'Song',
+      artistNames: ['First', 'Second'],
+      artistMbIds: [MBID.toUpperCase(), OTHER_MBID],
+      playedTime: play.playedTime,
+    };
+    assert.deepEqual(
+      validateRecord({ rkey: RKEY, value: legacy }).map((p) => [p.kind, p.fixable]),
+      [
+        ['deprecated-field', true],
+        ['deprecated-field', true],
+        ['missing-artists', true],
+      ]
+    );
+
+    const fixed = fixRecord(legacy);
+
+    assert.ok(isPlayRecord(fixed));
+    assert.deepEqual(fixed.artists, [
+      { artistName: 'First', artistMbId: MBID },
+      { artistName: 'Second', artistMbId: OTHER_MBID },
+    ]);
+    assert.equal('artistNames' in fixed, false);
+    assert.equal('artistMbIds' in fixed, false);
+    assert.deepEqual(validateRecord({ rkey: RKEY, value: fixed }), []);
+  });
+
+  it('drops legacy MBIDs that do not line up with the names', () => {
+    const fixed = fixRecord({ ...play, artists: undefined, artistNames: ['First', 'Second'], artistMbIds: [MBID] });
+
+    assert.ok(isPlayRecord(fixed));
+    assert.deepEqual(fixed.artists, [{ artistName: 'First' }, { artistName: 'Second' }]);
+    assert.deepEqual(validateRecord({ rkey: RKEY, value: fixed }), []);
+  });
+
+  it('keeps existing artists over legacy arrays', () => {
+    const fixed = fixRecord({ ...play, artistNames: ['Someone else'], artistMbIds: [] });
+
+    assert.deepEqual(fixed, play);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * In-memory stand-in for a PDS, served over HTTP so the real `AtpAgent`
+ * (and its error and header handling) talks to it unchanged. Implements
+ * just enough XRPC for the tools: login, listRecords, getRecord,
+ * deleteRecord, putRecord and applyWrites on one repo, getRepo for a CAR
+ * export of it, plus fault injection.
+ */
+import { AtpAgent } from '@atproto/api';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { COLLECTION } from '../src/records.js';
+import { dateToTid } from '../src/tid.js';
+import { buildRepoCar, recordCid } from './car-fixture.js';
+
+const WRITE_COSTS: { [op: string]: number } = { create: 3, update: 2, delete: 1 };
+
+/** Short method name, e.g. `listRecords` for `com.atproto.repo.listRecords` */
+export type MockMethod =
+  | 'createSession'
+  | 'listRecords'
+  | 'getRecord'
+  | 'deleteRecord'
+  | 'putRecord'
+  | 'applyWrites'
+  | 'getRepo';
+
+export interface Fault {
+  status: number;
+  error?: string;
+  message?: string;
+  headers?: { [name: string]: string };
+}
+
+export interface MockCall {
+  method: MockMethod;
+  params: { [name: string]: string };
+  body?: any;
+}
+
+export interface MockPdsOptions {
+  did?: string;
+  handle?: string;
+  password?: string;
+  /** Enforce a points budget on writes and send `ratelimit-*` headers */
+  rateLimit?: { limit: number; windowSeconds: number };
+}
+
+export interface MockPds {
+  url: string;
+  did: string;
+  handle: string;
+  password: string;
+  /** The repo's play records by rkey */
+  records: Map<string, any>;
+  /** Records of other collections by `<collection>/<rkey>`, only seen by getRepo */
+  others: Map<string, any>;
+  /** Every request, in the order it arrived */
+  calls: MockCall[];
+  /** Points left in the rate limit window, when `rateLimit` is set */
+  remaining?: number;
+  /** Fail the next calls of a method with these faults, one per call */
+  fail(method: MockMethod, ...faults: Fault[]): void;
+  /** Number of calls of a method so far */
+  count(method: MockMethod): number;
+  /** A logged-in agent for the repo */
+  agent(): Promise<AtpAgent>;
+  close(): Promise<void>;
+}
+
+/** 429 whose `ratelimit-reset` is a number of seconds from now */
+export function rateLimited(resetInSeconds = 1): Fault {
+  return {
+    status: 429,
+    error: 'RateLimitExceeded',
+    message: 'Rate Limit Exceeded',
+    headers: { 'ratelimit-reset': String(Math.ceil(Date.now() / 1000 + resetInSeconds)) },
+  };
+}
+
+/** 400 the way a PDS reports a record that isn't there */
+export function notFound(): Fault {
+  return { status: 400, error: 'InvalidRequest', message: 'Record not found' };
+}
+
+/** Transient server error */
+export function serverError(): Fault {
+  return { status: 502, error: 'UpstreamFailure', message: 'Bad gateway' };
+}
+
+/**
+ * Add one play per time to the repo, keyed by the TID of that time
+ * @returns The rkeys, in the order of `times`
+ */
+export function addPlays(pds: MockPds, times: Date[]): string[] {
+  return times.map((time, i) => {
+    const rkey = dateToTid(time, i % 1024);
+    pds.records.set(rkey, {
+      $type: COLLECTION,
+      trackName: `Track ${i}`,
+      artists: [{ artistName: 'Artist' }],
+      playedTime: time.toISOString(),
+    });
+    return rkey;
+  });
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data ? JSON.parse(data) : undefined));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: { [name: string]: string } = {}): void {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start a mock PDS on a free local port
+ */
+export async function startMockPds(options: MockPdsOptions = {}): Promise<MockPds> {
+  const did = options.did ?? 'did:plc:mockmockmockmockmockmock';
+  const handle = options.handle ?? 'mock.test';
+  const password = options.password ?? 'app-password';
+  const faults = new Map<MockMethod, Fault[]>();
+  let resetAt = 0;
+
+  const uri = (rkey: string) => `at://${did}/${COLLECTION}/${rkey}`;
+
+  const pds: MockPds = {
+    url: '',
+    did,
+    handle,
+    password,
+    records: new Map(),
+    others: new Map(),
+    calls: [],
+    remaining: options.rateLimit?.limit,
+    fail(method, ...list) {
+      faults.set(method, [...(faults.get(method) ?? []), ...list]);
+    },
+    count(method) {
+      return pds.calls.filter((c) => c.method === method).length;
+    },
+    async agent() {
+      const agent = new AtpAgent({ service: pds.url });
+      await agent.login({ identifier: handle, password });
+      return agent;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+
+  /**
+   * Charge a write against the budget; returns the headers to send, or
+   * undefined when the budget is spent
+   */
+  const charge = (points: number): { [name: string]: string } | undefined => {
+    const limit = options.rateLimit;
+    if (!limit) return {};
+
+    const now = Date.now() / 1000;
+    if (now >= resetAt) {
+      resetAt = Math.ceil(now + limit.windowSeconds);
+      pds.remaining = limit.limit;
+    }
+    if (pds.remaining! < points) return undefined;
+
+    pds.remaining! -= points;
+    return {
+      'ratelimit-limit': String(limit.limit),
+      'ratelimit-remaining': String(pds.remaining),
+      'ratelimit-reset': String(resetAt),
+      'ratelimit-policy': `${limit.limit};w=${limit.windowSeconds}`,
+    };
+  };
+
+  const write = (res: ServerResponse, points: number, body: unknown) => {
+    const headers = charge(points);
+    if (!headers) {
+      send(res, 429, { error: 'RateLimitExceeded', message: 'Rate Limit Exceeded' }, {
+        'ratelimit-limit': String(options.rateLimit!.limit),
+        'ratelimit-remaining': '0',
+        'ratelimit-reset': String(resetAt),
+      });
+      return false;
+    }
+    send(res, 200, body, headers);
+    return true;
+  };
+
+  const listRecords = (params: URLSearchParams) => {
+    const limit = Math.min(parseInt(params.get('limit') ?? '50', 10), 100);
+    const reverse = params.get('reverse') === 'true';
+    const cursor = params.get('cursor') ?? undefined;
+
+    let rkeys = [...pds.records.keys()].sort();
+    if (!reverse) rkeys.reverse();
+    if (cursor !== undefined) {
+      rkeys = rkeys.filter((rkey) => (reverse ? rkey > cursor : rkey < cursor));
+    }
+    const page = rkeys.slice(0, limit);
+
+    // Like the reference PDS: a cursor whenever the page isn't empty
+    return {
+      records: page.map((rkey) => ({ uri: uri(rkey), cid: recordCid(pds.records.get(rkey)), value: pds.records.get(rkey) })),
+      cursor: page.length > 0 ? page[page.length - 1] : undefined,
+    };
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const method = url.pathname.split('.').pop() as MockMethod;
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+    pds.calls.push({ method, params: Object.fromEntries(url.searchParams), body });
+
+    const fault = faults.get(method)?.shift();
+    if (fault) {
+      send(res, fault.status, { error: fault.error ?? 'InternalServerError', message: fault.message ?? 'Injected fault' }, fault.headers);
+      return;
+    }
+
+    switch (method) {
+      case 'createSession':
+        if (body.identifier !== handle && body.identifier !== did) {
+          send(res, 400, { error: 'InvalidRequest', message: 'Unknown identifier' });
+        } else if (body.password !== password) {
+          send(res, 401, { error: 'AuthenticationRequired', message: 'Invalid identifier or password' });
+        } else {
+          send(res, 200, { did, handle, accessJwt: 'access', refreshJwt: 'refresh', active: true });
+        }
+        return;
+
+      case 'listRecords':
+        send(res, 200, listRecords(url.searchParams));
+        return;
+
+      case 'getRecord': {
+        const rkey = url.searchParams.get('rkey')!;
+        if (pds.records.has(rkey)) {
+          send(res, 200, { uri: uri(rkey), cid: recordCid(pds.records.get(rkey)), value: pds.records.get(rkey) });
+        } else {
+          send(res, 400, { error: 'RecordNotFound', message: `Could not locate record: ${uri(rkey)}` });
+        }
+        return;
+      }
+
+      case 'deleteRecord':
+        // Deleting a missing record is a no-op, as on a real PDS
+        if (write(res, WRITE_COSTS.delete, {})) pds.records.delete(body.rkey);
+        return;
+
+      case 'putRecord': {
+        const exists = pds.records.has(body.rkey);
+        // swapRecord: only replace the version with this CID
+        if (body.swapRecord != null && (!exists || recordCid(pds.records.get(body.rkey)) !== body.swapRecord)) {
+          const current = exists ? recordCid(pds.records.get(body.rkey)) : 'null';
+          send(res, 400, { error: 'InvalidSwap', message: `Record was at ${current}` });
+          return;
+        }
+        if (write(res, WRITE_COSTS[exists ? 'update' : 'create'], { uri: uri(body.rkey), cid: recordCid(body.record) })) {
+          pds.records.set(body.rkey, body.record);
+        }
+        return;
+      }
+
+      case 'applyWrites': {
+        // All or nothing: check every write before applying any
+        for (const w of body.writes) {
+          const exists = pds.records.has(w.rkey);
+          if (w.$type.endsWith('#delete') && !exists) {
+            send(res, 400, { error: 'InvalidRequest', message: `Could not find record: ${uri(w.rkey)}` });
+            return;
+          }
+          if (w.$type.endsWith('#create') && exists) {
+            send(res, 400, { error: 'InvalidRequest', message: `Record already exists: ${uri(w.rkey)}` });
+            return;
+          }
+        }
+
+        const points = body.writes.reduce((sum: number, w: any) => sum + WRITE_COSTS[w.$type.split('#')[1]], 0);
+        if (write(res, points, {})) {
+          for (const w of body.writes) {
+            if (w.$type.endsWith('#delete')) pds.records.delete(w.rkey);
+            else pds.records.set(w.rkey, w.value);
+          }
+        }
+        return;
+      }
+
+      case 'getRepo': {
+        const records = [
+          ...[...pds.records].map(([rkey, value]) => ({ collection: COLLECTION, rkey, value })),
+          ...[...pds.others].map(([key, value]) => {
+            const slash = key.indexOf('/');
+            return { collection: key.slice(0, slash), rkey: key.slice(slash + 1), value };
+          }),
+        ];
+        res.writeHead(200, { 'content-type': 'application/vnd.ipld.car' });
+        res.end(buildRepoCar(did, records));
+        return;
+      }
+
+      default:
+        send(res, 501, { error: 'MethodNotImplemented', message: `Mock PDS has no ${url.pathname}` });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  pds.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return pds;
+}
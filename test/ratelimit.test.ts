@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadRateLimiter, observeHeaders, reserve, sleep, withRateLimit, WRITE_COSTS } from '../src/ratelimit.js';
+import { COLLECTION } from '../src/records.js';
+import { startMockPds } from './mock-pds.js';
+
+describe('rate limiter', () => {
+  let dir: string;
+  let n = 0;
+  const fresh = () => loadRateLimiter('did:plc:test', join(dir, String(n++)));
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'teal-ratelimits-'));
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('charges creates, updates and deletes by their point cost', async () => {
+    const limiter = fresh();
+    await reserve(limiter, 'create', 10);
+    await reserve(limiter, 'update', 10);
+    await reserve(limiter, 'delete', 10);
+    assert.equal(limiter.state.remaining, 5000 - 10 * (WRITE_COSTS.create + WRITE_COSTS.update + WRITE_COSTS.delete));
+  });
+
+  it('refuses a reservation that could never fit in a window', async () => {
+    const limiter = fresh();
+    observeHeaders(limiter, {
+      'ratelimit-remaining': '100',
+      'ratelimit-reset': String(Math.floor(Date.now() / 1000) + 600),
+      'ratelimit-policy': '100;w=3600',
+    });
+
+    // 90 usable points: 30 creates fit, 31 never will
+    await reserve(limiter, 'create', 30);
+    await assert.rejects(reserve(limiter, 'create', 31), /31 creates cost 93 points, more than the 90/);
+    assert.equal(limiter.state.remaining, 10);
+  });
+
+  it('takes the budget from the server headers', () => {
+    const limiter = fresh();
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    observeHeaders(limiter, {
+      'ratelimit-limit': '3000',
+      'ratelimit-remaining': '1234',
+      'ratelimit-reset': String(reset),
+      'ratelimit-policy': '3000;w=1800',
+    });
+    assert.deepEqual(
+      { ...limiter.state, version: undefined },
+      { version: undefined, limit: 3000, windowMs: 1_800_000, remaining: 1234, resetAt: reset * 1000 }
+    );
+  });
+
+  it('ignores responses without rate limit headers', () => {
+    const limiter = fresh();
+    const before = { ...limiter.state };
+    observeHeaders(limiter, { 'content-type': 'application/json' });
+    assert.deepEqual(limiter.state, before);
+  });
+
+  it('saves the budget so the next run starts from it', async () => {
+    const limiter = fresh();
+    await reserve(limiter, 'delete', 200);
+    const again = loadRateLimiter('did:plc:test', join(limiter.path, '..'));
+    assert.equal(again.state.remaining, 4800);
+  });
+
+  it('starts a new window once the old one has passed', async () => {
+    const limiter = fresh();
+    limiter.state.remaining = 10;
+    limiter.state.resetAt = Date.now() - 1;
+    await reserve(limiter, 'delete', 1);
+    assert.equal(limiter.state.remaining, 4999);
+  });
+
+  it('charges a write once however often it is retried', async () => {
+    const limiter = fresh();
+    let calls = 0;
+
+    await withRateLimit(limiter, 'create', 1, async () => {
+      if (calls++ === 0) throw Object.assign(new Error('Bad gateway'), { status: 502 });
+      return { headers: {} };
+    });
+
+    assert.equal(calls, 2);
+    assert.equal(limiter.state.remaining, 5000 - WRITE_COSTS.create);
+  });
+
+  it('extends the shared pause when a later 429 resets after it', async () => {
+    const limiter = fresh();
+    const resetIn = (seconds: number) => String(Math.ceil(Date.now() / 1000) + seconds);
+    const tooMany = (reset: string) =>
+      Object.assign(new Error('Rate Limit Exceeded'), { status: 429, headers: { 'ratelimit-reset': reset } });
+    const retriedAt: number[] = [];
+    const laterReset = resetIn(2);
+
+    const write = (reset: string, delayMs: number) => {
+      let calls = 0;
+      return withRateLimit(limiter, 'create', 1, async () => {
+        if (calls++ > 0) {
+          retriedAt.push(Date.now());
+          return { headers: {} };
+        }
+        await sleep(delayMs);
+        throw tooMany(reset);
+      });
+    };
+    await Promise.all([write(resetIn(1), 0), write(laterReset, 50)]);
+
+    assert.equal(retriedAt.length, 2);
+    for (const time of retriedAt) assert.ok(time >= parseInt(laterReset, 10) * 1000, `retried ${time}`);
+  });
+
+  it('tracks a real server budget across writes', async () => {
+    const pds = await startMockPds({ rateLimit: { limit: 1000, windowSeconds: 3600 } });
+    try {
+      const agent = await pds.agent();
+      const limiter = fresh();
+      for (const rkey of ['3kaaaaaaaaaa2', '3kaaaaaaaaab2']) {
+        await withRateLimit(limiter, 'create', 1, () =>
+          agent.com.atproto.repo.putRecord({ repo: pds.did, collection: COLLECTION, rkey, record: { $type: COLLECTION } })
+        );
+      }
+      assert.equal(limiter.state.limit, 1000);
+      assert.equal(limiter.state.remaining, pds.remaining);
+      assert.equal(pds.remaining, 1000 - 2 * WRITE_COSTS.create);
+    } finally {
+      await pds.close();
+    }
+  });
+});
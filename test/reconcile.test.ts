@@ -0,0 +1,156 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import { loadRateLimiter, type RateLimiter } from '../src/ratelimit.js';
+import { countOutcomes, verifyDeletions, writeReport, type RecordOutcome, type ReportRecord } from '../src/reconcile.js';
+import { COLLECTION } from '../src/records.js';
+import { addPlays, rateLimited, serverError, startMockPds, type MockPds } from './mock-pds.js';
+
+describe('writeReport', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'teal-reports-'));
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('writes every record with counts per outcome', () => {
+    const outcomes: RecordOutcome[] = ['done', 'done', 'already-done', 'failed', 'not-done'];
+    const records: ReportRecord[] = outcomes.map((outcome, i) => ({
+      rkey: `rkey${i}`,
+      uri: `at://did:plc:reports/${COLLECTION}/rkey${i}`,
+      outcome,
+      attempts: 1,
+    }));
+
+    const path = writeReport(
+      {
+        operation: 'delete',
+        repo: 'did:plc:reports',
+        description: 'Test run',
+        startedAt: '2024-03-16T10:00:00.000Z',
+        finishedAt: '2024-03-16T10:01:00.000Z',
+        verified: true,
+        records,
+      },
+      dir
+    );
+
+    assert.equal(path, join(dir, 'delete-2024-03-16T10-00-00-000Z.json'));
+    const report = JSON.parse(readFileSync(path, 'utf-8'));
+    assert.equal(report.version, 1);
+    assert.deepEqual(report.counts, { planned: 5, done: 2, 'already-done': 1, failed: 1, 'not-done': 1 });
+    assert.deepEqual(report.records, records);
+    assert.deepEqual(countOutcomes(records), report.counts);
+  });
+});
+
+describe('verifyDeletions', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+  let root: string;
+  let limiter: RateLimiter;
+
+  /** Outcomes for new plays, as a run would have reported them */
+  const outcomes = (...reported: RecordOutcome[]): ReportRecord[] =>
+    addPlays(
+      pds,
+      reported.map((_, i) => new Date(Date.UTC(2024, 0, 1) + i * 60_000))
+    ).map((rkey, i) => ({ rkey, uri: `at://${pds.did}/${COLLECTION}/${rkey}`, outcome: reported[i], attempts: 1 }));
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+    root = mkdtempSync(join(tmpdir(), 'teal-ratelimits-'));
+  });
+  after(async () => {
+    await pds.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+    limiter = loadRateLimiter(pds.did, mkdtempSync(join(root, 'run-')));
+  });
+
+  it('confirms records are gone, even where the delete call failed', async () => {
+    const records = outcomes('done', 'failed', 'already-done');
+    records[1].error = 'Bad gateway';
+    pds.records.clear();
+
+    await verifyDeletions(agent, pds.did, records, limiter);
+
+    assert.deepEqual(records.map((r) => r.outcome), ['done', 'done', 'already-done']);
+    assert.equal(records[1].error, undefined);
+    // Already-missing records aren't looked up again, and the rest take one listing
+    assert.equal(pds.count('listRecords'), 1);
+    assert.equal(pds.count('getRecord'), 0);
+  });
+
+  it('deletes stragglers again and checks them once more', async () => {
+    const records = outcomes('done', 'done', 'done');
+    pds.records.delete(records[0].rkey);
+
+    const log: string[] = [];
+    await verifyDeletions(agent, pds.did, records, limiter, 1, (message) => log.push(message));
+
+    assert.deepEqual(records.map((r) => r.outcome), ['done', 'done', 'done']);
+    assert.deepEqual(records.map((r) => r.attempts), [1, 2, 2]);
+    assert.equal(pds.records.size, 0);
+    assert.deepEqual(log, ['Verification pass 1: 1 gone, 2 still present', 'Verification pass 2: 2 gone, 0 still present']);
+  });
+
+  it('reports records still present after the retries', async () => {
+    const records = outcomes('done');
+    // The PDS accepts the deletes but the record stays
+    pds.fail('deleteRecord', { status: 200 }, { status: 200 });
+
+    await verifyDeletions(agent, pds.did, records, limiter);
+
+    assert.equal(records[0].outcome, 'not-done');
+    assert.equal(records[0].attempts, 3);
+    assert.equal(records[0].error, 'Still present after deletion');
+    assert.equal(pds.count('listRecords'), 3);
+  });
+
+  it('keeps the error of a failed retry', async () => {
+    const records = outcomes('done');
+    pds.fail('deleteRecord', { status: 200 }, serverError(), serverError(), serverError());
+
+    await verifyDeletions(agent, pds.did, records, limiter);
+
+    assert.equal(records[0].outcome, 'not-done');
+    assert.equal(records[0].error, 'Bad gateway');
+  });
+
+  it('checks a large run in a few listings', async () => {
+    const records = outcomes(...new Array<RecordOutcome>(1000).fill('done'));
+    for (const record of records.slice(0, 100)) pds.records.delete(record.rkey);
+    for (const record of records.slice(101)) pds.records.delete(record.rkey);
+
+    await verifyDeletions(agent, pds.did, records, limiter);
+
+    // Only the straggler is checked again after its retry
+    assert.equal(records[100].attempts, 2);
+    assert.equal(records.filter((r) => r.outcome === 'done').length, 1000);
+    assert.equal(pds.count('listRecords'), 2);
+    assert.equal(pds.count('getRecord'), 0);
+  });
+
+  it('waits out a rate limit on the checks without spending the write budget', async () => {
+    const records = outcomes('done', 'done');
+    pds.records.clear();
+    pds.fail('listRecords', rateLimited());
+    const log: string[] = [];
+    limiter.log = (message) => log.push(message);
+
+    await verifyDeletions(agent, pds.did, records, limiter);
+
+    assert.deepEqual(records.map((r) => r.outcome), ['done', 'done']);
+    assert.match(log[0], /^Rate limited\. Waiting \d+s\.\.\.$/);
+    assert.equal(limiter.state.remaining, limiter.state.limit);
+  });
+});
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import {
+  listAllRecords,
+  listRecordsInRange,
+  memorySource,
+  pdsSource,
+  type ListedRecord,
+  type RecordSource,
+} from '../src/records.js';
+import { addPlays, startMockPds, type MockPds } from './mock-pds.js';
+
+const HOUR = 60 * 60 * 1000;
+
+/** One play an hour from the start of 2024 */
+function hourly(count: number): Date[] {
+  return Array.from({ length: count }, (_, i) => new Date(Date.UTC(2024, 0, 1) + i * HOUR));
+}
+
+async function collect(records: AsyncIterable<ListedRecord>): Promise<string[]> {
+  const rkeys: string[] = [];
+  for await (const record of records) rkeys.push(record.rkey);
+  return rkeys;
+}
+
+describe('listAllRecords', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+  });
+  after(() => pds.close());
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+  });
+
+  it('pages newest first and stops on a short last page', async () => {
+    const rkeys = addPlays(pds, hourly(250));
+
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did)), [...rkeys].reverse());
+    // 100 + 100 + 50: the short page ends it, despite the cursor that comes with it
+    assert.equal(pds.count('listRecords'), 3);
+  });
+
+  it('asks once more when the last page is exactly full', async () => {
+    const rkeys = addPlays(pds, hourly(200));
+
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did)), [...rkeys].reverse());
+    assert.equal(pds.count('listRecords'), 3);
+    assert.equal(pds.calls.at(-1)!.params.cursor, rkeys[0]);
+  });
+
+  it('pages oldest first with reverse, from an exclusive cursor', async () => {
+    const rkeys = addPlays(pds, hourly(150));
+
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did, { reverse: true })), rkeys);
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did, { reverse: true, cursor: rkeys[119] })), rkeys.slice(120));
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did, { cursor: rkeys[5] })), rkeys.slice(0, 5).reverse());
+  });
+
+  it('stops at the limit without fetching further pages', async () => {
+    const rkeys = addPlays(pds, hourly(150));
+
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did, { limit: 1 })), [rkeys[149]]);
+    assert.equal(pds.calls.at(-1)!.params.limit, '1');
+
+    pds.calls.length = 0;
+    assert.equal((await collect(listAllRecords(agent, pds.did, { limit: 120 }))).length, 120);
+    assert.deepEqual(pds.calls.map((c) => c.params.limit), ['100', '20']);
+  });
+
+  it('handles an empty collection', async () => {
+    assert.deepEqual(await collect(listAllRecords(agent, pds.did)), []);
+    assert.equal(pds.count('listRecords'), 1);
+  });
+});
+
+describe('listRecordsInRange', () => {
+  let pds: MockPds;
+  let sources: { [name: string]: RecordSource };
+  let rkeys: string[];
+  const times = hourly(500);
+
+  before(async () => {
+    pds = await startMockPds();
+    rkeys = addPlays(pds, times);
+    const records = [...pds.records.entries()]
+      .map(([rkey, value]) => ({ rkey, uri: `at://${pds.did}/fm.teal.alpha.feed.play/${rkey}`, value }))
+      .sort((a, b) => (a.rkey < b.rkey ? -1 : 1));
+    sources = { pds: pdsSource(await pds.agent(), pds.did), memory: memorySource(records) };
+  });
+  after(() => pds.close());
+
+  for (const name of ['pds', 'memory']) {
+    describe(`over the ${name} source`, () => {
+      it('includes records exactly at both ends', async () => {
+        const found = await collect(listRecordsInRange(sources[name], times[10], times[20]));
+        assert.deepEqual(found.sort(), rkeys.slice(10, 21));
+      });
+
+      it('excludes records a millisecond outside the range', async () => {
+        const start = new Date(times[10].getTime() + 1);
+        const end = new Date(times[20].getTime() - 1);
+        const found = await collect(listRecordsInRange(sources[name], start, end));
+        assert.deepEqual(found.sort(), rkeys.slice(11, 20));
+      });
+
+      it('finds ranges near either end of the collection', async () => {
+        // Near the oldest records pages oldest first, near the newest pages newest first
+        assert.deepEqual((await collect(listRecordsInRange(sources[name], times[0], times[2]))).sort(), rkeys.slice(0, 3));
+        assert.deepEqual((await collect(listRecordsInRange(sources[name], times[497], times[499]))).sort(), rkeys.slice(497));
+      });
+
+      it('returns nothing for a range between records or outside the collection', async () => {
+        const between = await collect(
+          listRecordsInRange(sources[name], new Date(times[3].getTime() + 1), new Date(times[4].getTime() - 1))
+        );
+        assert.deepEqual(between, []);
+        assert.deepEqual(await collect(listRecordsInRange(sources[name], new Date('2030-01-01'), new Date('2031-01-01'))), []);
+      });
+
+      it('filters by playedTime with a full scan', async () => {
+        const found = await collect(listRecordsInRange(sources[name], times[100], times[101], undefined, 'playedTime'));
+        assert.deepEqual(found.sort(), rkeys.slice(100, 102));
+      });
+    });
+  }
+
+  it('passes skipped records to onWarning rather than printing them', async () => {
+    const records = [
+      { rkey: rkeys[0], uri: `at://${pds.did}/fm.teal.alpha.feed.play/${rkeys[0]}`, value: pds.records.get(rkeys[0]) },
+      // Too long for a TID, but sorts among them
+      { rkey: `${rkeys[0]}x`, uri: `at://${pds.did}/fm.teal.alpha.feed.play/${rkeys[0]}x`, value: { ...pds.records.get(rkeys[1]), playedTime: undefined } },
+      { rkey: rkeys[1], uri: `at://${pds.did}/fm.teal.alpha.feed.play/${rkeys[1]}`, value: pds.records.get(rkeys[1]) },
+    ];
+    const warnings: string[] = [];
+    const onWarning = (message: string) => warnings.push(message);
+
+    await collect(listRecordsInRange(memorySource(records), times[0], times[1], undefined, 'tid', onWarning));
+    await collect(listRecordsInRange(memorySource(records), times[0], times[1], undefined, 'playedTime', onWarning));
+
+    assert.deepEqual(warnings, [`Skipping record with invalid TID: ${rkeys[0]}x`, 'Skipped 1 records without a valid playedTime']);
+  });
+
+  it('reads only the pages around a narrow range', async () => {
+    pds.calls.length = 0;
+    await collect(listRecordsInRange(sources.pds, times[490], times[495]));
+    // Two edge probes and a single page from the newest end, not all five pages
+    assert.equal(pds.count('listRecords'), 3);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RecordRef } from '../src/records.js';
+import { COLLECTION } from '../src/records.js';
+import { findReplaySource, indexHistory } from '../src/replays.js';
+import { dateToTid } from '../src/tid.js';
+
+/** Plays of the given tracks a minute apart, numbered on from `offset` */
+function plays(tracks: string[], offset = 0): RecordRef[] {
+  return tracks.map((track, i) => {
+    const createdAt = new Date(Date.UTC(2024, 0, 1) + (offset + i) * 60_000);
+    const rkey = dateToTid(createdAt, 1);
+    return {
+      rkey,
+      uri: `at://did:plc:replays/${COLLECTION}/${rkey}`,
+      createdAt,
+      value: { $type: COLLECTION, trackName: track, artists: [{ artistName: 'Artist' }] },
+    };
+  });
+}
+
+const tracks = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix} ${i}`);
+
+describe('findReplaySource', () => {
+  it('finds the stretch a block copies, allowing for gaps', () => {
+    const original = tracks('Song', 10);
+    const history = plays([...tracks('Other', 5), ...original, ...tracks('Later', 5)]);
+    // The replay drops two tracks and slips another in
+    const block = plays([...original.slice(0, 4), 'Intruder', ...original.slice(6)], 100);
+
+    const match = findReplaySource(indexHistory(history), block);
+
+    assert.equal(match?.matched, 8);
+    assert.equal(match?.ratio, 8 / 9);
+    assert.equal(match?.source[0], history[5]);
+    assert.equal(match?.source.at(-1), history[14]);
+  });
+
+  it('only searches history before the given end', () => {
+    const original = tracks('Song', 6);
+    const records = plays([...tracks('Other', 3), ...original, ...original]);
+    const block = records.slice(9);
+
+    const match = findReplaySource(indexHistory(records), block, 9);
+
+    assert.equal(match?.matched, 6);
+    assert.equal(match?.source[0], records[3]);
+    assert.equal(findReplaySource(indexHistory(records), block, 3), undefined);
+    assert.equal(findReplaySource(indexHistory(records), block, 0), undefined);
+  });
+
+  it('prefers the most recent of equally good stretches', () => {
+    const original = tracks('Song', 5);
+    const history = plays([...original, ...tracks('Other', 5), ...original]);
+
+    const match = findReplaySource(indexHistory(history), plays(original, 100));
+
+    assert.equal(match?.matched, 5);
+    assert.equal(match?.source[0], history[10]);
+  });
+
+  it('matches long blocks against a long, repetitive history', () => {
+    // A small library on shuffle: every track recurs hundreds of times
+    const library = tracks('Song', 40);
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const shuffled = Array.from({ length: 20_000 }, () => library[Math.floor(random() * library.length)]);
+    const records = plays(shuffled);
+    // Recent enough to be among the candidate stretches tried
+    const start = 19_000;
+    const block = plays(shuffled.slice(start, start + 500), 30_000);
+
+    const match = findReplaySource(indexHistory(records), block);
+
+    assert.equal(match?.matched, 500);
+    assert.equal(match?.ratio, 1);
+  });
+});
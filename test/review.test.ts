@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { detectBlocks, type TimedRecord } from '../src/blocks.js';
+import { COLLECTION } from '../src/records.js';
+import { blockKey, loadReview, parseSelection, reviewBlocks, reviewTargets, saveReview, type Ask } from '../src/review.js';
+import { dateToTid } from '../src/tid.js';
+
+const DID = 'did:plc:reviewreviewreviewreview';
+
+/** Records at the given offsets in seconds, in time order */
+function timed(offsets: number[]): TimedRecord[] {
+  return offsets.map((offset, i) => {
+    const time = new Date(Date.UTC(2024, 0, 1) + offset * 1000);
+    const rkey = dateToTid(time, i);
+    return {
+      rkey,
+      uri: `at://${DID}/${COLLECTION}/${rkey}`,
+      createdAt: time,
+      timestamp: time,
+      value: { $type: COLLECTION, trackName: `Track ${i}`, artists: [{ artistName: 'Artist' }], playedTime: time.toISOString() },
+    };
+  });
+}
+
+/** Answer questions from a script, failing if it runs out */
+function scripted(answers: string[]): Ask {
+  return async () => {
+    assert.ok(answers.length > 0, 'asked more questions than scripted');
+    return answers.shift()!;
+  };
+}
+
+const silent = () => {};
+
+describe('parseSelection', () => {
+  it('reads numbers and ranges as sorted zero-based indices', () => {
+    assert.deepEqual(parseSelection('7, 1-3, 2', 10), [0, 1, 2, 6]);
+    assert.deepEqual(parseSelection(' 4 - 5 ', 5), [3, 4]);
+  });
+
+  it('rejects anything else', () => {
+    assert.throws(() => parseSelection('', 5), /Nothing selected/);
+    assert.throws(() => parseSelection('0', 5), /Out of range/);
+    assert.throws(() => parseSelection('4-6', 5), /Out of range/);
+    assert.throws(() => parseSelection('3-1', 5), /Out of range/);
+    assert.throws(() => parseSelection('all', 5), /Not a record number/);
+  });
+});
+
+describe('reviewBlocks', () => {
+  let root: string;
+  // Three blocks of four records a second apart, an hour apart from each other
+  const records = timed([0, 1, 2, 3, 3600, 3601, 3602, 3603, 7200, 7201, 7202, 7203]);
+  const blocks = detectBlocks(records, 10, 4);
+
+  before(() => {
+    root = mkdtempSync(join(tmpdir(), 'teal-reviews-'));
+  });
+  after(() => rmSync(root, { recursive: true, force: true }));
+
+  it('deletes whole blocks, nothing of kept ones, and only the picked records', async () => {
+    const session = loadReview(DID, mkdtempSync(join(root, 'run-')));
+    const finished = await reviewBlocks(records, blocks, session, scripted(['d', 'k', 'p', '9', 'p', '2-3']), silent, silent);
+
+    assert.equal(finished, true);
+    const { targets, undecided } = reviewTargets(session.review, blocks);
+    assert.equal(undecided, 0);
+    assert.deepEqual(
+      targets.map((r) => r.rkey),
+      [...blocks[0], blocks[2][1], blocks[2][2]].map((r) => r.rkey)
+    );
+    assert.equal(session.review.decisions[blockKey(blocks[2])].action, 'pick');
+  });
+
+  it('saves decisions as they are made and resumes after a quit', async () => {
+    const dir = mkdtempSync(join(root, 'run-'));
+    const first = loadReview(DID, dir);
+    assert.equal(await reviewBlocks(records, blocks, first, scripted(['x', 'd', 'q']), silent, silent), false);
+
+    const resumed = loadReview(DID, dir);
+    assert.equal(reviewTargets(resumed.review, blocks).undecided, 2);
+
+    const shown: number[] = [];
+    await reviewBlocks(records, blocks, resumed, scripted(['k', 'd']), (_, i) => shown.push(i), silent);
+    assert.deepEqual(shown, [1, 2]);
+    assert.deepEqual(
+      reviewTargets(resumed.review, blocks).targets.map((r) => r.rkey),
+      [...blocks[0], ...blocks[2]].map((r) => r.rkey)
+    );
+  });
+
+  it('asks again about a block once it changes shape', async () => {
+    const session = loadReview(DID, mkdtempSync(join(root, 'run-')));
+    await reviewBlocks(records, blocks, session, scripted(['d', 'd', 'd']), silent, silent);
+
+    const narrower = detectBlocks(records.slice(1), 10, 3);
+    assert.equal(reviewTargets(session.review, narrower).undecided, 1);
+  });
+
+  it('refuses a review file of another repo', () => {
+    const dir = mkdtempSync(join(root, 'run-'));
+    const session = loadReview(DID, dir);
+    saveReview({ ...session, path: join(dir, 'did_plc_other.json') });
+
+    assert.throws(() => loadReview('did:plc:other', dir), /is a review of did:plc:reviewreviewreviewreview/);
+  });
+});
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import { COLLECTION } from '../src/records.js';
+import { checkTargets, parseTargets } from '../src/targets.js';
+import { addPlays, rateLimited, serverError, startMockPds, type MockPds } from './mock-pds.js';
+
+const DID = 'did:plc:targetstargetstargetstar';
+
+describe('parseTargets', () => {
+  it('reads rkeys and URIs of the repo, skipping blanks, comments and repeats', () => {
+    const text = [
+      '# podcast episodes',
+      '3kb3pwfv5fk2a',
+      '',
+      `  at://${DID}/${COLLECTION}/3kb3pwfv6ab2b  `,
+      `at://Alice.Example.com/${COLLECTION}/3kb3pwfv7cd2c`,
+      '3kb3pwfv5fk2a',
+    ].join('\r\n');
+
+    assert.deepEqual(parseTargets(text, DID, 'alice.example.com'), {
+      rkeys: ['3kb3pwfv5fk2a', '3kb3pwfv6ab2b', '3kb3pwfv7cd2c'],
+      errors: [],
+    });
+  });
+
+  it('reports each line it cannot use', () => {
+    const text = [
+      `at://did:plc:someoneelse/${COLLECTION}/3kb3pwfv5fk2a`,
+      `at://${DID}/app.bsky.feed.post/3kb3pwfv5fk2a`,
+      `at://${DID}/${COLLECTION}`,
+      'not an rkey',
+      '..',
+    ].join('\n');
+
+    const { rkeys, errors } = parseTargets(text, DID);
+    assert.deepEqual(rkeys, []);
+    assert.equal(errors.length, 5);
+    assert.match(errors[0], /^line 1: .* is not in did:plc:targets/);
+    assert.match(errors[1], /^line 2: .* is not a fm\.teal\.alpha\.feed\.play record/);
+    assert.match(errors[2], /^line 3: /);
+    assert.match(errors[3], /^line 4: not an rkey or at:\/\/ URI/);
+    assert.match(errors[4], /^line 5: /);
+  });
+});
+
+describe('checkTargets', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+  });
+  after(() => pds.close());
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+  });
+
+  it('splits targets into records that exist, oldest first with values, and missing rkeys', async () => {
+    const rkeys = addPlays(pds, Array.from({ length: 20 }, (_, i) => new Date(Date.UTC(2024, 0, 1, i))));
+    const gone = [rkeys[3], rkeys[11]];
+    for (const rkey of gone) pds.records.delete(rkey);
+
+    const checked: number[] = [];
+    const { found, missing } = await checkTargets(agent, pds.did, [...rkeys].reverse(), (n) => checked.push(n));
+
+    assert.deepEqual(found.map((r) => r.rkey), rkeys.filter((r) => !gone.includes(r)));
+    assert.equal(found[0].value?.trackName, 'Track 0');
+    assert.deepEqual(missing.sort(), [...gone].sort());
+    // One listing covers them all
+    assert.equal(pds.count('listRecords'), 1);
+    assert.equal(pds.count('getRecord'), 0);
+    assert.equal(checked.at(-1), 20);
+  });
+
+  it('lists far-apart targets separately, skipping the plays between them', async () => {
+    const rkeys = addPlays(pds, Array.from({ length: 500 }, (_, i) => new Date(Date.UTC(2024, 0, 1) + i * 60_000)));
+    const targets = [rkeys[0], rkeys[1], rkeys[499]];
+
+    const { found, missing } = await checkTargets(agent, pds.did, targets);
+
+    assert.deepEqual(found.map((r) => r.rkey), targets);
+    assert.deepEqual(missing, []);
+    assert.equal(pds.count('listRecords'), 2);
+  });
+
+  it('looks up rkeys that are not TIDs one by one', async () => {
+    const [tid] = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    pds.records.set('self', { $type: COLLECTION, trackName: 'Not a TID' });
+
+    const { found, missing } = await checkTargets(agent, pds.did, ['self', tid, 'other']);
+
+    assert.deepEqual(found.map((r) => r.rkey), ['self', tid]);
+    assert.deepEqual(missing, ['other']);
+    assert.equal(pds.count('getRecord'), 2);
+  });
+
+  it('waits out rate limits and retries server errors', async () => {
+    const rkeys = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    pds.fail('listRecords', rateLimited(), serverError());
+
+    const log: string[] = [];
+    const { found } = await checkTargets(agent, pds.did, rkeys, undefined, (message) => log.push(message));
+
+    assert.deepEqual(found.map((r) => r.rkey), rkeys);
+    assert.equal(pds.count('listRecords'), 3);
+    assert.match(log[0], /^Rate limited\. Waiting \d+s\.\.\.$/);
+    assert.equal(log[1], 'Retrying in 1000ms after error: Bad gateway');
+  });
+
+  it('throws when the PDS keeps failing', async () => {
+    const rkeys = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    pds.fail('listRecords', serverError(), serverError(), serverError());
+
+    await assert.rejects(checkTargets(agent, pds.did, rkeys), /Bad gateway/);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { dateToTid, formatTid, tidInRange, tidToDate } from '../src/tid.js';
+
+describe('tidToDate', () => {
+  it('decodes the microsecond timestamp in the first 11 characters', () => {
+    // 1 second = 1,000,000µs = 30 * 32^3 + 16 * 32^2 + 18 * 32 + 0 = "ykm2" in base32-sortable
+    assert.equal(tidToDate('2222222ykm222').getTime(), 1000);
+  });
+
+  it('ignores the clock ID and drops sub-millisecond precision', () => {
+    const date = new Date('2024-03-15T12:34:56.789Z');
+    assert.equal(tidToDate(dateToTid(date, 1023, 999)).getTime(), date.getTime());
+    assert.equal(tidToDate(dateToTid(date, 0, 0)).getTime(), date.getTime());
+  });
+
+  it('accepts upper case', () => {
+    const tid = dateToTid(new Date('2024-01-01T00:00:00Z'));
+    assert.equal(tidToDate(tid.toUpperCase()).getTime(), tidToDate(tid).getTime());
+  });
+
+  it('rejects the wrong length', () => {
+    assert.throws(() => tidToDate('3jzfcijpj2z2'), /Invalid TID length: 12/);
+    assert.throws(() => tidToDate('3jzfcijpj2z2aa'), /Invalid TID length: 14/);
+    assert.throws(() => tidToDate(''), /Invalid TID length: 0/);
+  });
+
+  it('rejects characters outside the base32-sortable alphabet', () => {
+    // 0, 1, 8 and 9 aren't in the alphabet
+    assert.throws(() => tidToDate('3jzfcijpj0z2a'), /Invalid base32 character: 0/);
+    assert.throws(() => tidToDate('3jzfci-pj2z2a'), /Invalid base32 character: -/);
+  });
+});
+
+describe('dateToTid', () => {
+  it('round-trips through tidToDate', () => {
+    for (const iso of ['1970-01-01T00:00:00.000Z', '2000-02-29T23:59:59.999Z', '2038-01-19T03:14:08.000Z', '2100-01-01T00:00:00.000Z']) {
+      assert.equal(tidToDate(dateToTid(new Date(iso))).toISOString(), iso);
+    }
+  });
+
+  it('encodes the epoch as all-minimum characters', () => {
+    assert.equal(dateToTid(new Date(0)), '2222222222222');
+  });
+
+  it('sorts in time order, then by microseconds and clock ID', () => {
+    const a = dateToTid(new Date('2024-01-01T00:00:00.000Z'), 1023, 999);
+    const b = dateToTid(new Date('2024-01-01T00:00:00.001Z'));
+    const c = dateToTid(new Date('2024-01-01T00:00:00.001Z'), 0, 1);
+    const d = dateToTid(new Date('2024-01-01T00:00:00.001Z'), 1, 1);
+    assert.deepEqual([d, c, b, a].sort(), [a, b, c, d]);
+  });
+
+  it('rejects dates it cannot encode', () => {
+    assert.throws(() => dateToTid(new Date('nope')), /Cannot encode date/);
+    assert.throws(() => dateToTid(new Date(-1)), /Cannot encode date/);
+  });
+
+  it('rejects out-of-range clock IDs and microseconds', () => {
+    const date = new Date('2024-01-01T00:00:00Z');
+    assert.throws(() => dateToTid(date, -1), /clock ID/);
+    assert.throws(() => dateToTid(date, 1024), /clock ID/);
+    assert.throws(() => dateToTid(date, 0, -1), /microsecond/);
+    assert.throws(() => dateToTid(date, 0, 1000), /microsecond/);
+  });
+});
+
+describe('tidInRange', () => {
+  const start = new Date('2024-03-01T00:00:00.000Z');
+  const end = new Date('2024-03-15T23:59:59.999Z');
+
+  it('includes both ends of the range', () => {
+    assert.equal(tidInRange(dateToTid(start), start, end), true);
+    assert.equal(tidInRange(dateToTid(end, 1023, 999), start, end), true);
+  });
+
+  it('excludes the millisecond either side', () => {
+    assert.equal(tidInRange(dateToTid(new Date(start.getTime() - 1), 1023, 999), start, end), false);
+    assert.equal(tidInRange(dateToTid(new Date(end.getTime() + 1)), start, end), false);
+  });
+});
+
+describe('formatTid', () => {
+  it('shows the decoded time, or marks the TID invalid', () => {
+    assert.equal(formatTid(dateToTid(new Date('2024-01-01T00:00:00Z'))), `${dateToTid(new Date('2024-01-01T00:00:00Z'))} (2024-01-01T00:00:00.000Z)`);
+    assert.equal(formatTid('self'), 'self (invalid)');
+  });
+});
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import type { AtpAgent } from '@atproto/api';
+import { loadRateLimiter } from '../src/ratelimit.js';
+import { COLLECTION, listAllRecords, type ListedRecord } from '../src/records.js';
+import { dateToTid } from '../src/tid.js';
+import { createRecords, putRecords, type RecordWrite } from '../src/writer.js';
+import { addPlays, startMockPds, type MockPds } from './mock-pds.js';
+
+describe('createRecords', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+  let cwd: string;
+  let dir: string;
+
+  /** New plays a minute apart, starting an hour into 2024 */
+  const writes = (count: number): RecordWrite[] =>
+    Array.from({ length: count }, (_, i) => {
+      const time = new Date(Date.UTC(2024, 0, 1, 1) + i * 60_000);
+      return {
+        rkey: dateToTid(time, 7),
+        value: { $type: COLLECTION, trackName: `Imported ${i}`, artists: [{ artistName: 'Artist' }], playedTime: time.toISOString() },
+      };
+    });
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+    // createRecords keeps its rate limit state in the working directory
+    cwd = process.cwd();
+    dir = mkdtempSync(join(tmpdir(), 'teal-writer-'));
+    process.chdir(dir);
+  });
+  after(async () => {
+    process.chdir(cwd);
+    await pds.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+  });
+
+  it('creates records in one batch', async () => {
+    const result = await createRecords(agent, pds.did, writes(5));
+
+    assert.deepEqual(result, { written: 5, failed: 0, errors: [] });
+    assert.equal(pds.records.size, 5);
+    assert.equal(pds.count('applyWrites'), 1);
+  });
+
+  it('leaves a record already under one of the rkeys alone and reports the clash', async () => {
+    const batch = writes(4);
+    const [existing] = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    const before = pds.records.get(existing);
+    batch[2].rkey = existing;
+
+    const result = await createRecords(agent, pds.did, batch);
+
+    assert.equal(result.written, 3);
+    assert.equal(result.failed, 1);
+    assert.match(result.errors[0], /rkey is taken by another record/);
+    assert.equal(pds.records.get(existing), before);
+    assert.equal(pds.count('putRecord'), 0);
+  });
+});
+
+describe('putRecords', () => {
+  let pds: MockPds;
+  let agent: AtpAgent;
+  let dir: string;
+
+  /** List the plays, then rename each track as an edit run would, swapping on the listed CID */
+  const renames = async (): Promise<RecordWrite[]> => {
+    const listed: ListedRecord[] = [];
+    for await (const record of listAllRecords(agent, pds.did)) listed.push(record);
+    return listed.map((r) => ({ rkey: r.rkey, value: { ...r.value, trackName: `${r.value.trackName} (edited)` }, swapRecord: r.cid }));
+  };
+  const put = (writes: RecordWrite[]) =>
+    putRecords(agent, pds.did, writes, undefined, 'update', loadRateLimiter(pds.did, mkdtempSync(join(dir, 'run-'))));
+
+  before(async () => {
+    pds = await startMockPds();
+    agent = await pds.agent();
+    dir = mkdtempSync(join(tmpdir(), 'teal-put-'));
+  });
+  after(async () => {
+    await pds.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+  beforeEach(() => {
+    pds.records.clear();
+    pds.calls.length = 0;
+  });
+
+  it('replaces records still at the version listed', async () => {
+    addPlays(pds, [new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 0, 2))]);
+
+    const result = await put(await renames());
+
+    assert.deepEqual(result, { written: 2, failed: 0, errors: [] });
+    assert.deepEqual([...pds.records.values()].map((v) => v.trackName), ['Track 0 (edited)', 'Track 1 (edited)']);
+  });
+
+  it('leaves a record changed since it was listed alone and reports the conflict once', async () => {
+    const [rkey] = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    const writes = await renames();
+    pds.records.set(rkey, { ...pds.records.get(rkey), trackName: 'Changed elsewhere' });
+
+    const result = await put(writes);
+
+    assert.equal(result.failed, 1);
+    assert.match(result.errors[0], /^Failed to write \w+: Conflict: the record changed after it was read/);
+    assert.equal(pds.records.get(rkey).trackName, 'Changed elsewhere');
+    assert.equal(pds.count('putRecord'), 1);
+  });
+
+  it('counts a write whose swap fails because it already landed as written', async () => {
+    const [rkey] = addPlays(pds, [new Date(Date.UTC(2024, 0, 1))]);
+    const writes = await renames();
+    // As if a first attempt got through before its response was lost
+    pds.records.set(rkey, writes[0].value);
+
+    const result = await put(writes);
+
+    assert.deepEqual(result, { written: 1, failed: 0, errors: [] });
+  });
+});